@@ -0,0 +1,38 @@
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// The real @raycast/api only works inside Raycast; tests get this stand-in instead (see vitest.config.ts)
+
+type Value = string | number | boolean;
+
+const items = new Map<string, Value>();
+
+export const LocalStorage = {
+  async getItem<T extends Value>(key: string): Promise<T | undefined> {
+    return items.get(key) as T | undefined;
+  },
+  async setItem(key: string, value: Value) {
+    items.set(key, value);
+  },
+  async removeItem(key: string) {
+    items.delete(key);
+  },
+  async allItems() {
+    return Object.fromEntries(items);
+  },
+  async clear() {
+    items.clear();
+  },
+};
+
+export const environment = { supportPath: join(tmpdir(), "raycast-putty-tests") };
+
+export const Toast = { Style: { Success: "SUCCESS", Failure: "FAILURE", Animated: "ANIMATED" } };
+
+export async function showToast() {
+  return {};
+}
+
+export async function closeMainWindow() {}
+
+export async function popToRoot() {}
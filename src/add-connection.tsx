@@ -1,121 +1,88 @@
-import { Action, ActionPanel, Form, Icon, Toast, showToast, getPreferenceValues, popToRoot, closeMainWindow } from "@raycast/api";
-import { exec, execFile } from "node:child_process";
-import { access } from "node:fs/promises";
-import { constants as fsConstants } from "node:fs";
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Form,
+  Icon,
+  Toast,
+  confirmAlert,
+  showToast,
+  getPreferenceValues,
+} from "@raycast/api";
+import { useEffect, useState } from "react";
+import {
+  SessionFields,
+  SessionFormErrors,
+  SessionFormValues,
+  applySessionForm,
+  sessionFormErrors,
+} from "./components/session-fields";
+import { ManageTemplates } from "./components/template-views";
+import { jumpCycleError, jumpSessionPort } from "./lib/jump-hosts";
+import { dismissAfterLaunch, launchPutty } from "./lib/putty";
+import { getSessionStore } from "./lib/session-store";
+import { TemplateMap, loadTemplates, templateValues } from "./lib/templates";
+import { snapshotSession } from "./lib/trash";
+import { findTool } from "./lib/tools";
+import { Preferences } from "./lib/types";
 
-type Preferences = {
-  puttyPath: string;
-};
-
-type Protocol = "raw" | "telnet" | "rlogin" | "ssh" | "serial";
-
-type CloseOnExit = "always" | "never" | "onexit";
-
-function encodeSessionKey(raw: string): string {
-  // Use encodeURIComponent to match PuTTY's session key encoding
-  return encodeURIComponent(raw);
-}
+export default function Command() {
+  const preferences = getPreferenceValues<Preferences>();
+  const [templates, setTemplates] = useState<TemplateMap>({});
+  const [template, setTemplate] = useState<string>("");
+  // Existing sessions, offered as jump hosts and checked for name collisions
+  const [sessionNames, setSessionNames] = useState<string[] | undefined>();
+  const [errors, setErrors] = useState<SessionFormErrors & { savedName?: string }>({});
 
-function writeRegistryValues(sessionName: string, values: { HostName: string; PortNumber: number; Protocol: Protocol; CloseOnExit: CloseOnExit; }) {
-  return new Promise<void>((resolve, reject) => {
-    const baseKey = `HKCU\\Software\\SimonTatham\\PuTTY\\Sessions\\${encodeSessionKey(sessionName)}`;
-    // Create the session key
-    exec(`reg add "${baseKey}" /f`, (err) => {
-      if (err) {
-        reject(err);
-        return;
-      }
-      const commands = [
-        `reg add "${baseKey}" /v HostName /t REG_SZ /d "${values.HostName}" /f`,
-        `reg add "${baseKey}" /v PortNumber /t REG_DWORD /d ${values.PortNumber} /f`,
-        `reg add "${baseKey}" /v Protocol /t REG_SZ /d ${values.Protocol} /f`,
-        `reg add "${baseKey}" /v CloseOnExit /t REG_SZ /d ${values.CloseOnExit} /f`,
-      ];
-      let index = 0;
-      const runNext = () => {
-        if (index >= commands.length) {
-          resolve();
-          return;
-        }
-        const cmd = commands[index++];
-        exec(cmd, (err2) => {
-          if (err2) {
-            reject(err2);
-            return;
-          }
-          runNext();
-        });
-      };
-      runNext();
-    });
-  });
-}
+  useEffect(() => {
+    (async () => {
+      setTemplates(await loadTemplates());
+      setSessionNames((await getSessionStore().list()).map((s) => s.name));
+    })();
+  }, []);
 
-async function fileExists(path: string): Promise<boolean> {
-  try {
-    await access(path, fsConstants.X_OK);
-    return true;
-  } catch {
-    try {
-      await access(path, fsConstants.R_OK);
-      return true;
-    } catch {
-      return false;
-    }
-  }
-}
+  const clearError = (field: keyof typeof errors) => setErrors((prev) => ({ ...prev, [field]: undefined }));
 
-export default function Command() {
-  const { puttyPath } = getPreferenceValues<Preferences>();
-  async function handleSubmit(values: {
-    host: string;
-    port: string;
-    protocol: Protocol;
-    closeOnExit: CloseOnExit;
-    save: boolean;
-    savedName?: string;
-  }) {
-    const portNum = Number(values.port);
-    if (!values.host) {
-      await showToast({ style: Toast.Style.Failure, title: "Host is required" });
-      return;
-    }
-    if (!Number.isInteger(portNum) || portNum <= 0 || portNum > 65535) {
-      await showToast({ style: Toast.Style.Failure, title: "Invalid port" });
-      return;
-    }
+  // Values the form does not show (terminal, keepalives, forwards…) come from the template too
+  const base = templateValues(templates, template);
+  async function handleSubmit(values: SessionFormValues & { save: boolean; savedName?: string }) {
+    const fieldErrors = sessionFormErrors(values);
+    setErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) return;
 
-    const sessionName = (values.save ? (values.savedName?.trim() || values.host.trim()) : "").trim();
+    const target = values.protocol === "serial" ? values.serialLine : values.host;
+    const sessionName = (values.save ? values.savedName?.trim() || target?.trim() : "")?.trim() ?? "";
 
     if (values.save) {
       try {
-        await writeRegistryValues(sessionName, {
-          HostName: values.host,
-          PortNumber: portNum,
-          Protocol: values.protocol,
-          CloseOnExit: values.closeOnExit,
-        });
-        await showToast({ style: Toast.Style.Success, title: "Session saved", message: sessionName });
-        // Launch saved session immediately
-        const exists = await fileExists(puttyPath);
-        if (!exists) {
-          await showToast({ style: Toast.Style.Failure, title: "PuTTY path not found", message: puttyPath });
+        const store = getSessionStore();
+        const cycle = values.jumpHost ? await jumpCycleError(store, sessionName, values.jumpHost) : undefined;
+        if (cycle) {
+          setErrors({ jumpHost: cycle });
           return;
         }
-        execFile(puttyPath, ["-load", sessionName], (error) => {
-          if (error) {
-            showToast({ style: Toast.Style.Failure, title: "Failed to launch PuTTY", message: error.message });
-          }
-        });
+        if (sessionNames?.includes(sessionName)) {
+          const confirmed = await confirmAlert({
+            title: `Replace "${sessionName}"?`,
+            message: "A saved session has this name. Its current settings can be restored from Recently Deleted.",
+            primaryAction: { title: "Replace", style: Alert.ActionStyle.Destructive },
+          });
+          if (!confirmed) return;
+          await snapshotSession(store, sessionName, "edited");
+        }
+        const plinkPath = await findTool("plink", preferences);
+        await store.write(
+          sessionName,
+          applySessionForm(base, values, plinkPath, await jumpSessionPort(store, values.jumpHost)),
+        );
+        await showToast({ style: Toast.Style.Success, title: "Session saved", message: sessionName });
+        // Launch saved session immediately
+        const puttyPath = (await findTool("putty", preferences)) ?? preferences.puttyPath;
+        if (!(await launchPutty(puttyPath, ["-load", sessionName]))) return;
         // Dismiss the form after launching
-        try {
-          await popToRoot({ clearSearchBar: true });
-        } catch {}
-        try {
-          await closeMainWindow({ clearRootSearch: true } as any);
-        } catch {}
-      } catch (e: any) {
-        await showToast({ style: Toast.Style.Failure, title: "Failed to save session", message: e?.message });
+        await dismissAfterLaunch();
+      } catch (e) {
+        await showToast({ style: Toast.Style.Failure, title: "Failed to save session", message: (e as Error).message });
         return;
       }
     }
@@ -123,31 +90,60 @@ export default function Command() {
 
   return (
     <Form
+      isLoading={!sessionNames}
       actions={
         <ActionPanel>
           <Action.SubmitForm title="Create Connection" icon={Icon.Plus} onSubmit={handleSubmit} />
+          <Action.Push
+            title="Manage Templates"
+            icon={Icon.Document}
+            target={
+              <ManageTemplates
+                onChanged={(next) => {
+                  setTemplates(next);
+                  if (!(template in next)) setTemplate("");
+                }}
+              />
+            }
+          />
         </ActionPanel>
       }
     >
-      <Form.TextField id="host" title="Host name (or IP)" placeholder="example.com" autoFocus />
-      <Form.TextField id="port" title="Port" placeholder="23 for Telnet, 22 for SSH, etc." defaultValue="23" />
-      <Form.Dropdown id="protocol" title="Connection type" defaultValue="raw">
-        <Form.Dropdown.Item title="Raw" value="raw" />
-        <Form.Dropdown.Item title="Telnet" value="telnet" />
-        <Form.Dropdown.Item title="Rlogin" value="rlogin" />
-        <Form.Dropdown.Item title="SSH" value="ssh" />
-        <Form.Dropdown.Item title="Serial" value="serial" />
-      </Form.Dropdown>
-      <Form.Dropdown id="closeOnExit" title="Close window on exit" defaultValue="onexit">
-        <Form.Dropdown.Item title="Always" value="always" />
-        <Form.Dropdown.Item title="Never" value="never" />
-        <Form.Dropdown.Item title="Only on clean exit" value="onexit" />
-      </Form.Dropdown>
+      {Object.keys(templates).length > 0 && (
+        <Form.Dropdown id="template" title="Template" value={template} onChange={setTemplate}>
+          <Form.Dropdown.Item title="None" value="" />
+          {Object.keys(templates)
+            .sort((a, b) => a.localeCompare(b))
+            .map((name) => (
+              <Form.Dropdown.Item key={name} title={name} value={name} icon={Icon.Document} />
+            ))}
+        </Form.Dropdown>
+      )}
+      {/* Remounted per template, since the fields only read their initial values once */}
+      {sessionNames && (
+        <SessionFields
+          key={template}
+          initial={base}
+          jumpHosts={sessionNames}
+          errors={errors}
+          onClearError={clearError}
+          autoFocus
+        />
+      )}
       <Form.Separator />
       <Form.Checkbox id="save" label="Save session" defaultValue={true} />
-      <Form.TextField id="savedName" title="Saved name" placeholder="Defaults to host" />
+      <Form.TextField
+        id="savedName"
+        title="Saved name"
+        placeholder="Defaults to host"
+        error={errors.savedName}
+        onChange={(name) =>
+          setErrors((prev) => ({
+            ...prev,
+            savedName: sessionNames?.includes(name.trim()) ? "Replaces the saved session with this name" : undefined,
+          }))
+        }
+      />
     </Form>
   );
 }
-
-
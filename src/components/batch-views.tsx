@@ -0,0 +1,196 @@
+import { Action, ActionPanel, Color, Form, Icon, List, Toast, showToast, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import { BULK_FIELDS, BatchResult, BulkField, bulkEdit, parseBulkValue, runBatch } from "../lib/batch";
+import { getSessionStore } from "../lib/session-store";
+import { TagMap, loadTags, setSessionTags } from "../lib/tags";
+import { TrashEntry, restoreAllFromTrash } from "../lib/trash";
+
+/**
+ * Success toast with an Undo action that puts the snapshots back. Used after batch deletes
+ * and edits; the snapshots also stay in Recently Deleted if the toast is missed.
+ */
+export async function showUndoToast(options: {
+  title: string;
+  message?: string;
+  snapshots: TrashEntry[];
+  onUndone: () => void;
+}) {
+  const { title, message, snapshots, onUndone } = options;
+  const toast = await showToast({ style: Toast.Style.Success, title, message });
+  if (snapshots.length === 0) return;
+  toast.primaryAction = {
+    title: "Undo",
+    shortcut: { modifiers: ["ctrl"], key: "z" },
+    onAction: async () => {
+      toast.style = Toast.Style.Animated;
+      toast.title = "Undoing…";
+      try {
+        await restoreAllFromTrash(getSessionStore(), snapshots);
+        toast.style = Toast.Style.Success;
+        toast.title = "Undone";
+      } catch (e) {
+        toast.style = Toast.Style.Failure;
+        toast.title = "Failed to undo";
+        toast.message = (e as Error).message;
+      }
+      toast.primaryAction = undefined;
+      onUndone();
+    },
+  };
+}
+
+/** One row per session, so a batch reports every outcome in one place rather than a toast each. */
+export function BatchResults(props: { title: string; results: BatchResult[] }) {
+  const { title, results } = props;
+  const failed = results.filter((r) => r.error);
+  const report = results
+    .map((r) => `${r.error ? "FAILED" : "OK"}\t${r.name}${r.error ? `\t${r.error}` : ""}`)
+    .join("\n");
+  return (
+    <List navigationTitle={title} searchBarPlaceholder="Filter results…">
+      <List.Section title="Failed" subtitle={String(failed.length)}>
+        {failed.map((r) => (
+          <List.Item
+            key={r.name}
+            icon={{ source: Icon.XMarkCircle, tintColor: Color.Red }}
+            title={r.name}
+            subtitle={r.error}
+            actions={
+              <ActionPanel>
+                <Action.CopyToClipboard title="Copy Report" content={report} />
+                <Action.CopyToClipboard title="Copy Error" content={r.error ?? ""} />
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+      <List.Section title="Succeeded" subtitle={String(results.length - failed.length)}>
+        {results
+          .filter((r) => !r.error)
+          .map((r) => (
+            <List.Item
+              key={r.name}
+              icon={{ source: Icon.CheckCircle, tintColor: Color.Green }}
+              title={r.name}
+              actions={
+                <ActionPanel>
+                  <Action.CopyToClipboard title="Copy Report" content={report} />
+                </ActionPanel>
+              }
+            />
+          ))}
+      </List.Section>
+    </List>
+  );
+}
+
+export function BulkEditForm(props: { names: string[]; onDone: () => void }) {
+  const { names, onDone } = props;
+  const { push } = useNavigation();
+  const [field, setField] = useState<BulkField>("PortNumber");
+  const [valueError, setValueError] = useState<string | undefined>();
+
+  async function handleSubmit(values: { field: BulkField; value: string }) {
+    let patch;
+    try {
+      patch = parseBulkValue(values.field, values.value);
+    } catch (e) {
+      setValueError((e as Error).message);
+      return;
+    }
+    const toast = await showToast({ style: Toast.Style.Animated, title: `Updating ${names.length} sessions…` });
+    const { results, snapshots } = await bulkEdit(getSessionStore(), names, patch);
+    await toast.hide();
+    onDone();
+    await showUndoToast({
+      title: `Updated ${results.filter((r) => !r.error).length} sessions`,
+      snapshots,
+      onUndone: onDone,
+    });
+    push(<BatchResults title={`Set ${BULK_FIELDS[values.field]}`} results={results} />);
+  }
+
+  return (
+    <Form
+      navigationTitle={`Edit ${names.length} Sessions`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Apply to All Selected" icon={Icon.Pencil} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text={names.join(", ")} />
+      <Form.Dropdown id="field" title="Field" value={field} onChange={(v) => setField(v as BulkField)}>
+        {Object.entries(BULK_FIELDS).map(([key, title]) => (
+          <Form.Dropdown.Item key={key} title={title} value={key} />
+        ))}
+      </Form.Dropdown>
+      {field === "Protocol" ? (
+        <Form.Dropdown key={field} id="value" title="Value" defaultValue="ssh">
+          <Form.Dropdown.Item title="Raw" value="raw" />
+          <Form.Dropdown.Item title="Telnet" value="telnet" />
+          <Form.Dropdown.Item title="Rlogin" value="rlogin" />
+          <Form.Dropdown.Item title="SSH" value="ssh" />
+          <Form.Dropdown.Item title="Serial" value="serial" />
+        </Form.Dropdown>
+      ) : field === "CloseOnExit" ? (
+        <Form.Dropdown key={field} id="value" title="Value" defaultValue="onexit">
+          <Form.Dropdown.Item title="Always" value="always" />
+          <Form.Dropdown.Item title="Never" value="never" />
+          <Form.Dropdown.Item title="Only on clean exit" value="onexit" />
+        </Form.Dropdown>
+      ) : (
+        <Form.TextField
+          key={field}
+          id="value"
+          title="Value"
+          error={valueError}
+          onChange={() => setValueError(undefined)}
+          placeholder={field === "PortNumber" ? "22" : "Leave empty to clear"}
+        />
+      )}
+    </Form>
+  );
+}
+
+export function BulkTagForm(props: { names: string[]; knownTags: string[]; onDone: (tags: TagMap) => void }) {
+  const { names, knownTags, onDone } = props;
+  const { push } = useNavigation();
+
+  async function handleSubmit(values: { add: string[]; newTags: string; remove: string[] }) {
+    const add = [...values.add, ...values.newTags.split(",")];
+    const results = await runBatch(names, async (name) => {
+      const current = (await loadTags())[name] ?? [];
+      await setSessionTags(
+        name,
+        [...current, ...add].filter((t) => !values.remove.includes(t)),
+      );
+    });
+    onDone(await loadTags());
+    push(<BatchResults title="Update Tags" results={results} />);
+  }
+
+  return (
+    <Form
+      navigationTitle={`Tag ${names.length} Sessions`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Apply Tags" icon={Icon.Tag} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text={names.join(", ")} />
+      <Form.TagPicker id="add" title="Add tags">
+        {knownTags.map((t) => (
+          <Form.TagPicker.Item key={t} value={t} title={t} icon={Icon.Tag} />
+        ))}
+      </Form.TagPicker>
+      <Form.TextField id="newTags" title="Add new tags" placeholder="Comma separated" />
+      <Form.TagPicker id="remove" title="Remove tags">
+        {knownTags.map((t) => (
+          <Form.TagPicker.Item key={t} value={t} title={t} icon={Icon.Tag} />
+        ))}
+      </Form.TagPicker>
+    </Form>
+  );
+}
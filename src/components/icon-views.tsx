@@ -0,0 +1,190 @@
+import { Action, ActionPanel, Color, Form, Icon, Keyboard, List, Toast, showToast, useNavigation } from "@raycast/api";
+import { useEffect, useState } from "react";
+import {
+  ColorName,
+  HostIconRule,
+  ICON_COLORS,
+  IconName,
+  IconSettings,
+  RULE_ICONS,
+  clearFaviconCache,
+  deleteHostRule,
+  loadIconSettings,
+  moveHostRule,
+  saveHostRule,
+  setTagColor,
+  tagColor,
+} from "../lib/icons";
+
+function HostRuleForm(props: { rule?: HostIconRule; index?: number; onSaved: (settings: IconSettings) => void }) {
+  const { rule, index, onSaved } = props;
+  const { pop } = useNavigation();
+  const [patternError, setPatternError] = useState<string | undefined>();
+
+  async function handleSubmit(values: { pattern: string; icon: string; color: string }) {
+    if (!values.pattern.trim()) {
+      setPatternError("Pattern is required");
+      return;
+    }
+    const next = await saveHostRule(
+      { pattern: values.pattern, icon: values.icon as IconName, color: (values.color || undefined) as ColorName },
+      index,
+    );
+    onSaved(next);
+    pop();
+  }
+
+  return (
+    <Form
+      navigationTitle={rule ? "Edit Host Rule" : "Add Host Rule"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Rule" icon={Icon.Check} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="pattern"
+        title="Host pattern"
+        placeholder="*.db.*"
+        info="* matches any run of characters, ? a single one. The first matching rule is used."
+        defaultValue={rule?.pattern}
+        error={patternError}
+        onChange={() => setPatternError(undefined)}
+      />
+      <Form.Dropdown id="icon" title="Icon" defaultValue={rule?.icon ?? RULE_ICONS[0].icon}>
+        {RULE_ICONS.map(({ title, icon }) => (
+          <Form.Dropdown.Item key={icon} title={title} value={icon} icon={Icon[icon]} />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown id="color" title="Color" defaultValue={rule?.color ?? ""}>
+        <Form.Dropdown.Item title="From tags" value="" />
+        {ICON_COLORS.map((c) => (
+          <Form.Dropdown.Item key={c} title={c} value={c} icon={{ source: Icon.CircleFilled, tintColor: Color[c] }} />
+        ))}
+      </Form.Dropdown>
+    </Form>
+  );
+}
+
+/** Host pattern rules and tag colors used for the session icons. */
+export function ManageIcons(props: { tags: string[]; onChanged: (settings: IconSettings) => void }) {
+  const { tags, onChanged } = props;
+  const [settings, setSettings] = useState<IconSettings | undefined>();
+
+  useEffect(() => {
+    (async () => {
+      setSettings(await loadIconSettings());
+    })();
+  }, []);
+
+  const update = (next: IconSettings) => {
+    setSettings(next);
+    onChanged(next);
+  };
+
+  const clearFavicons = async () => {
+    await clearFaviconCache();
+    await showToast({ style: Toast.Style.Success, title: "Favicon cache cleared" });
+  };
+
+  const addRule = (
+    <Action.Push
+      title="Add Host Rule"
+      icon={Icon.Plus}
+      shortcut={Keyboard.Shortcut.Common.New}
+      target={<HostRuleForm onSaved={update} />}
+    />
+  );
+  const clearCache = <Action title="Clear Favicon Cache" icon={Icon.Trash} onAction={clearFavicons} />;
+
+  return (
+    <List isLoading={!settings} navigationTitle="Session Icons">
+      <List.EmptyView
+        icon={Icon.Image}
+        title="No host rules or tags yet"
+        actions={
+          <ActionPanel>
+            {addRule}
+            {clearCache}
+          </ActionPanel>
+        }
+      />
+      <List.Section title="Host Rules" subtitle="First match wins">
+        {settings?.hostRules.map((rule, index) => (
+          <List.Item
+            key={`${index}-${rule.pattern}`}
+            icon={{ source: Icon[rule.icon] ?? Icon.Terminal, tintColor: rule.color ? Color[rule.color] : undefined }}
+            title={rule.pattern}
+            accessories={[{ text: RULE_ICONS.find((r) => r.icon === rule.icon)?.title ?? rule.icon }]}
+            actions={
+              <ActionPanel>
+                <Action.Push
+                  title="Edit Rule"
+                  icon={Icon.Pencil}
+                  target={<HostRuleForm rule={rule} index={index} onSaved={update} />}
+                />
+                {addRule}
+                <Action
+                  title="Raise Priority"
+                  icon={Icon.ArrowUp}
+                  shortcut={Keyboard.Shortcut.Common.MoveUp}
+                  onAction={async () => update(await moveHostRule(index, -1))}
+                />
+                <Action
+                  title="Lower Priority"
+                  icon={Icon.ArrowDown}
+                  shortcut={Keyboard.Shortcut.Common.MoveDown}
+                  onAction={async () => update(await moveHostRule(index, 1))}
+                />
+                <Action
+                  title="Delete Rule"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  shortcut={Keyboard.Shortcut.Common.Remove}
+                  onAction={async () => update(await deleteHostRule(index))}
+                />
+                {clearCache}
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+      <List.Section title="Tag Colors">
+        {settings &&
+          tags.map((tag) => {
+            const color = tagColor(settings, tag);
+            return (
+              <List.Item
+                key={tag}
+                icon={{ source: color ? Icon.CircleFilled : Icon.Circle, tintColor: color }}
+                title={tag}
+                accessories={[{ text: settings.tagColors[tag] ?? "No color" }]}
+                actions={
+                  <ActionPanel>
+                    <ActionPanel.Submenu title="Set Color" icon={Icon.Brush}>
+                      {ICON_COLORS.map((c) => (
+                        <Action
+                          key={c}
+                          title={c}
+                          icon={{ source: Icon.CircleFilled, tintColor: Color[c] }}
+                          onAction={async () => update(await setTagColor(tag, c))}
+                        />
+                      ))}
+                      <Action
+                        title="No Color"
+                        icon={Icon.Circle}
+                        onAction={async () => update(await setTagColor(tag, undefined))}
+                      />
+                    </ActionPanel.Submenu>
+                    {addRule}
+                    {clearCache}
+                  </ActionPanel>
+                }
+              />
+            );
+          })}
+      </List.Section>
+    </List>
+  );
+}
@@ -0,0 +1,135 @@
+import { Action, ActionPanel, Color, Icon, List, Toast, popToRoot, showToast } from "@raycast/api";
+import { useState } from "react";
+import { ImportPlanItem, ImportResolution, applyImport, resolvePlanItem } from "../lib/session-import";
+import { getSessionStore } from "../lib/session-store";
+import { TrashEntry } from "../lib/trash";
+import { showUndoToast } from "./batch-views";
+
+const STATUS_TAGS: Record<ImportPlanItem["status"], { value: string; color: Color }> = {
+  new: { value: "New", color: Color.Green },
+  update: { value: "Update", color: Color.Blue },
+  conflict: { value: "Conflict", color: Color.Orange },
+};
+
+function detailMarkdown(item: ImportPlanItem): string {
+  const lines = [`## ${item.targetName}`, "", `**${resolutionLabel(item)}** · ${STATUS_TAGS[item.status].value}`];
+  if (item.warnings.length > 0) {
+    lines.push("", ...item.warnings.map((w) => `> ⚠️ ${w}`));
+  }
+  if (item.status === "new" || item.resolution === "rename") {
+    const v = item.values;
+    lines.push("", "New session:", "", `- Host: \`${v.HostName ?? ""}\``, `- Port: ${v.PortNumber ?? ""}`);
+    lines.push(`- Protocol: ${v.Protocol ?? ""}`);
+    if (v.UserName) lines.push(`- User: \`${v.UserName}\``);
+    return lines.join("\n");
+  }
+  if (item.changes.length === 0) {
+    lines.push("", "Identical to the existing session.");
+    return lines.join("\n");
+  }
+  lines.push("", "| Value | Existing | Imported |", "| --- | --- | --- |");
+  for (const change of item.changes) {
+    lines.push(`| ${change.name} | \`${change.before ?? "—"}\` | \`${change.after}\` |`);
+  }
+  return lines.join("\n");
+}
+
+function resolutionLabel(item: ImportPlanItem): string {
+  if (item.resolution === "skip") return "Skipped";
+  if (item.resolution === "rename") return `As ${item.targetName}`;
+  return item.status === "new" ? "Create" : "Overwrite";
+}
+
+/**
+ * Lists what an import would do and lets the user resolve name conflicts before anything
+ * is written. Sources only have to produce `ImportPlanItem`s via `planImport`.
+ */
+export function ImportPreview(props: { items: ImportPlanItem[]; existingNames: string[] }) {
+  const { existingNames } = props;
+  const [items, setItems] = useState(props.items);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const resolve = (index: number, resolution: ImportResolution) =>
+    setItems((prev) => resolvePlanItem(prev, index, resolution, existingNames));
+
+  async function importAll() {
+    const selected = items.filter((i) => i.resolution !== "skip");
+    if (selected.length === 0) {
+      await showToast({ style: Toast.Style.Failure, title: "Nothing selected to import" });
+      return;
+    }
+    setIsImporting(true);
+    const results = await applyImport(getSessionStore(), selected);
+    setIsImporting(false);
+    const failed = results.filter((r) => r.error);
+    if (failed.length > 0) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `Imported ${results.length - failed.length} of ${results.length} sessions`,
+        message: failed.map((r) => `${r.name}: ${r.error}`).join("\n"),
+      });
+      return;
+    }
+    await showUndoToast({
+      title: `Imported ${results.length} sessions`,
+      snapshots: results.map((r) => r.snapshot).filter((s): s is TrashEntry => !!s),
+      onUndone: () => undefined,
+    });
+    await popToRoot({ clearSearchBar: true });
+  }
+
+  const sections: { title: string; status: ImportPlanItem["status"] }[] = [
+    { title: "Conflicts", status: "conflict" },
+    { title: "New Sessions", status: "new" },
+    { title: "Updates", status: "update" },
+  ];
+
+  return (
+    <List isLoading={isImporting} isShowingDetail searchBarPlaceholder="Filter sessions to import…">
+      {sections.map((section) => (
+        <List.Section key={section.status} title={section.title}>
+          {items.map((item, index) => {
+            if (item.status !== section.status) return null;
+            const values = item.values;
+            return (
+              <List.Item
+                key={item.name}
+                icon={item.resolution === "skip" ? Icon.Circle : Icon.CheckCircle}
+                title={item.targetName}
+                subtitle={[values.UserName, values.HostName].filter(Boolean).join("@")}
+                detail={<List.Item.Detail markdown={detailMarkdown(item)} />}
+                accessories={[
+                  ...(item.warnings.length > 0 ? [{ icon: Icon.Warning, tooltip: item.warnings.join("\n") }] : []),
+                  { text: resolutionLabel(item) },
+                  { tag: STATUS_TAGS[item.status] },
+                ]}
+                actions={
+                  <ActionPanel>
+                    <Action title="Import Selected Sessions" icon={Icon.Download} onAction={importAll} />
+                    {item.resolution !== "write" && (
+                      <Action
+                        title={item.status === "new" ? "Include" : "Overwrite Existing"}
+                        icon={item.status === "new" ? Icon.CheckCircle : Icon.Replace}
+                        onAction={() => resolve(index, "write")}
+                      />
+                    )}
+                    {item.status !== "new" && item.resolution !== "rename" && (
+                      <Action
+                        title="Import Under New Name"
+                        icon={Icon.Pencil}
+                        onAction={() => resolve(index, "rename")}
+                      />
+                    )}
+                    {item.resolution !== "skip" && (
+                      <Action title="Skip" icon={Icon.Circle} onAction={() => resolve(index, "skip")} />
+                    )}
+                  </ActionPanel>
+                }
+              />
+            );
+          })}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,197 @@
+import { Action, ActionPanel, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import { joinSessionName, splitSessionName } from "../lib/grouping";
+import { uniqueSessionName } from "../lib/session-import";
+import { getSessionStore } from "../lib/session-store";
+import { renameSessionMeta } from "../lib/session-meta";
+import { TagMap, loadTags, setSessionTags } from "../lib/tags";
+
+const NEW_FOLDER = "__new__";
+
+export function MoveSessionForm(props: { sessionName: string; folders: string[]; onMoved: (newName: string) => void }) {
+  const { sessionName, folders, onMoved } = props;
+  const { pop } = useNavigation();
+  const { folder, leaf } = splitSessionName(sessionName);
+
+  async function handleSubmit(values: { folder: string; newFolder: string }) {
+    const target = values.folder === NEW_FOLDER ? values.newFolder : values.folder;
+    const newName = joinSessionName(target, leaf);
+    if (newName === sessionName) {
+      pop();
+      return;
+    }
+    try {
+      const store = getSessionStore();
+      if ((await store.list()).some((s) => s.name === newName)) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "A session with that name already exists",
+          message: newName,
+        });
+        return;
+      }
+      await store.rename(sessionName, newName);
+      await renameSessionMeta(sessionName, newName);
+      await showToast({ style: Toast.Style.Success, title: "Session moved", message: newName });
+      onMoved(newName);
+      pop();
+    } catch (e) {
+      await showToast({ style: Toast.Style.Failure, title: "Failed to move session", message: (e as Error).message });
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={`Move ${sessionName}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Move Session" icon={Icon.Folder} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Folders are part of the session name (prod/db-01), so PuTTY and other tools see them too." />
+      <Form.Dropdown id="folder" title="Folder" defaultValue={folder}>
+        <Form.Dropdown.Item title="No folder" value="" />
+        {folders.map((f) => (
+          <Form.Dropdown.Item key={f} title={f} value={f} icon={Icon.Folder} />
+        ))}
+        <Form.Dropdown.Item title="New folder…" value={NEW_FOLDER} icon={Icon.NewFolder} />
+      </Form.Dropdown>
+      <Form.TextField id="newFolder" title="New folder" placeholder="prod/eu (used with New folder…)" />
+    </Form>
+  );
+}
+
+export function EditTagsForm(props: {
+  sessionName: string;
+  tags: string[];
+  knownTags: string[];
+  onSaved: (tags: TagMap) => void;
+}) {
+  const { sessionName, tags, knownTags, onSaved } = props;
+  const { pop } = useNavigation();
+
+  async function handleSubmit(values: { tags: string[]; newTags: string }) {
+    const next = [...values.tags, ...values.newTags.split(",")];
+    try {
+      onSaved(await setSessionTags(sessionName, next));
+      await showToast({ style: Toast.Style.Success, title: "Tags updated", message: sessionName });
+      pop();
+    } catch (e) {
+      await showToast({ style: Toast.Style.Failure, title: "Failed to save tags", message: (e as Error).message });
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={`Tags for ${sessionName}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Tags" icon={Icon.Tag} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TagPicker id="tags" title="Tags" defaultValue={tags}>
+        {knownTags.map((t) => (
+          <Form.TagPicker.Item key={t} value={t} title={t} icon={Icon.Tag} />
+        ))}
+      </Form.TagPicker>
+      <Form.TextField id="newTags" title="New tags" placeholder="Comma separated, e.g. prod, linux" />
+    </Form>
+  );
+}
+
+export function RenameSessionForm(props: { sessionName: string; onRenamed: (newName: string) => void }) {
+  const { sessionName, onRenamed } = props;
+  const { pop } = useNavigation();
+  const [nameError, setNameError] = useState<string | undefined>();
+
+  async function handleSubmit(values: { name: string }) {
+    const newName = values.name.trim();
+    if (!newName) {
+      setNameError("Name is required");
+      return;
+    }
+    if (newName === sessionName) {
+      pop();
+      return;
+    }
+    try {
+      await getSessionStore().rename(sessionName, newName);
+      await renameSessionMeta(sessionName, newName);
+      await showToast({ style: Toast.Style.Success, title: "Session renamed", message: newName });
+      onRenamed(newName);
+      pop();
+    } catch (e) {
+      setNameError((e as Error).message);
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={`Rename ${sessionName}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Rename Session" icon={Icon.Pencil} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="New name"
+        defaultValue={sessionName}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+    </Form>
+  );
+}
+
+export function DuplicateSessionForm(props: {
+  sessionName: string;
+  existingNames: string[];
+  onDuplicated: (newName: string) => void;
+}) {
+  const { sessionName, existingNames, onDuplicated } = props;
+  const { pop } = useNavigation();
+  const [nameError, setNameError] = useState<string | undefined>();
+
+  async function handleSubmit(values: { name: string; tags: boolean }) {
+    const newName = values.name.trim();
+    if (!newName) {
+      setNameError("Name is required");
+      return;
+    }
+    try {
+      await getSessionStore().copy(sessionName, newName);
+      const tags = (await loadTags())[sessionName];
+      if (values.tags && tags) await setSessionTags(newName, tags);
+      await showToast({ style: Toast.Style.Success, title: "Session duplicated", message: newName });
+      onDuplicated(newName);
+      pop();
+    } catch (e) {
+      setNameError((e as Error).message);
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={`Duplicate ${sessionName}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Duplicate Session" icon={Icon.CopyClipboard} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Every saved setting is copied, including ones this extension does not edit." />
+      <Form.TextField
+        id="name"
+        title="Name"
+        defaultValue={uniqueSessionName(sessionName, existingNames)}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+      <Form.Checkbox id="tags" label="Copy tags" defaultValue={true} />
+    </Form>
+  );
+}
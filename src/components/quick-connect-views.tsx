@@ -0,0 +1,105 @@
+import { Action, ActionPanel, Alert, Form, Icon, Toast, confirmAlert, showToast, useNavigation } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { promoteAdHocTarget } from "../lib/history";
+import { jumpCycleError, jumpSessionPort } from "../lib/jump-hosts";
+import { DEFAULT_SESSION_VALUES } from "../lib/session-schema";
+import { getSessionStore } from "../lib/session-store";
+import { ParsedTarget, formatTarget, resolveTarget } from "../lib/targets";
+import { snapshotSession } from "../lib/trash";
+import { SessionValues } from "../lib/types";
+import {
+  SessionFields,
+  SessionFormErrors,
+  SessionFormValues,
+  applySessionForm,
+  sessionFormErrors,
+} from "./session-fields";
+
+/** Saves an ad-hoc target as a session, taking its launch history along. */
+export function SaveTargetForm(props: { target: ParsedTarget; plinkPath?: string; onSaved: () => void }) {
+  const { target, plinkPath, onSaved } = props;
+  const { pop } = useNavigation();
+  const [sessionNames, setSessionNames] = useState<string[] | undefined>();
+  const [errors, setErrors] = useState<SessionFormErrors & { name?: string }>({});
+  const resolved = resolveTarget(target);
+  const [initial] = useState<SessionValues>(() => ({
+    ...DEFAULT_SESSION_VALUES,
+    Protocol: resolved.protocol,
+    HostName: resolved.host,
+    PortNumber: resolved.port,
+    UserName: resolved.user ?? "",
+    extra: [],
+  }));
+
+  useEffect(() => {
+    (async () => {
+      setSessionNames((await getSessionStore().list()).map((s) => s.name));
+    })();
+  }, []);
+
+  const clearError = (field: keyof typeof errors) => setErrors((prev) => ({ ...prev, [field]: undefined }));
+
+  async function handleSubmit(values: SessionFormValues & { name: string }) {
+    const fieldErrors: typeof errors = sessionFormErrors(values);
+    const name = values.name.trim();
+    if (!name) fieldErrors.name = "Required";
+    setErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) return;
+
+    const store = getSessionStore();
+    const cycle = values.jumpHost ? await jumpCycleError(store, name, values.jumpHost) : undefined;
+    if (cycle) {
+      setErrors({ jumpHost: cycle });
+      return;
+    }
+    if (sessionNames?.includes(name)) {
+      const confirmed = await confirmAlert({
+        title: `Replace "${name}"?`,
+        message: "A saved session has this name. Its current settings can be restored from Recently Deleted.",
+        primaryAction: { title: "Replace", style: Alert.ActionStyle.Destructive },
+      });
+      if (!confirmed) return;
+      await snapshotSession(store, name, "edited");
+    }
+    try {
+      await store.write(
+        name,
+        applySessionForm(initial, values, plinkPath, await jumpSessionPort(store, values.jumpHost)),
+      );
+      await promoteAdHocTarget(formatTarget(target), name);
+      await showToast({ style: Toast.Style.Success, title: "Session saved", message: name });
+      onSaved();
+      pop();
+    } catch (e) {
+      await showToast({ style: Toast.Style.Failure, title: "Failed to save session", message: (e as Error).message });
+    }
+  }
+
+  return (
+    <Form
+      isLoading={!sessionNames}
+      navigationTitle={`Save ${formatTarget(target)}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Session" icon={Icon.SaveDocument} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Saved name"
+        defaultValue={resolved.host}
+        error={errors.name}
+        onChange={(name) =>
+          setErrors((prev) => ({
+            ...prev,
+            name: sessionNames?.includes(name.trim()) ? "Replaces the saved session with this name" : undefined,
+          }))
+        }
+      />
+      {sessionNames && (
+        <SessionFields initial={initial} jumpHosts={sessionNames} errors={errors} onClearError={clearError} />
+      )}
+    </Form>
+  );
+}
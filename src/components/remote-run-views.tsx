@@ -0,0 +1,255 @@
+import {
+  Action,
+  ActionPanel,
+  Color,
+  Form,
+  Icon,
+  List,
+  Toast,
+  showInFinder,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { useEffect, useState } from "react";
+import { matchesFilter, parseFilter, splitSessionName } from "../lib/grouping";
+import { HostRun, formatRunReport, runOnSessions } from "../lib/remote-run";
+import { getSessionStore } from "../lib/session-store";
+import { saveToDownloads } from "../lib/session-transfer";
+import { TagMap, allTags, loadTags } from "../lib/tags";
+import { fence } from "./tool-views";
+
+const STATUS_ICONS: Record<HostRun["status"], List.Item.Props["icon"]> = {
+  queued: { source: Icon.Clock, tintColor: Color.SecondaryText },
+  running: { source: Icon.CircleProgress, tintColor: Color.Blue },
+  succeeded: { source: Icon.CheckCircle, tintColor: Color.Green },
+  failed: { source: Icon.XMarkCircle, tintColor: Color.Red },
+  timeout: { source: Icon.Stopwatch, tintColor: Color.Orange },
+};
+
+function runMarkdown(run: HostRun): string {
+  const parts: string[] = [];
+  if (run.error) parts.push(`**Could not start plink:** ${run.error}`);
+  if (run.stdout.trim()) parts.push(fence(run.stdout));
+  if (run.stderr.trim()) parts.push("**stderr**", fence(run.stderr));
+  if (parts.length === 0)
+    parts.push(run.status === "queued" || run.status === "running" ? "_Waiting…_" : "_No output_");
+  return parts.join("\n\n");
+}
+
+export function RunResults(props: {
+  names: string[];
+  command: string;
+  plinkPath: string;
+  concurrency: number;
+  timeoutMs: number;
+}) {
+  const { names, command, plinkPath, concurrency, timeoutMs } = props;
+  const [runs, setRuns] = useState<Record<string, HostRun>>({});
+  const [isRunning, setIsRunning] = useState<boolean>(true);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      await runOnSessions(names, command, {
+        plinkPath,
+        concurrency,
+        timeoutMs,
+        onUpdate: (run) => {
+          if (mounted) setRuns((prev) => ({ ...prev, [run.name]: run }));
+        },
+      });
+      if (mounted) setIsRunning(false);
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const ordered = names.map((n) => runs[n]).filter((r): r is HostRun => !!r);
+  const report = formatRunReport(command, ordered);
+
+  async function exportReport(format: "txt" | "json") {
+    const data = format === "txt" ? report : JSON.stringify({ command, runs: ordered }, null, 2);
+    const path = await saveToDownloads("remote-command", format, data);
+    await showToast({
+      style: Toast.Style.Success,
+      title: "Results exported",
+      message: path,
+      primaryAction: { title: "Show in Explorer", onAction: () => showInFinder(path) },
+    });
+  }
+
+  const done = ordered.filter((r) => r.endedAt).length;
+  return (
+    <List
+      isLoading={isRunning}
+      isShowingDetail
+      navigationTitle={isRunning ? `Running on ${done}/${names.length}…` : command}
+      searchBarPlaceholder="Filter hosts…"
+    >
+      {ordered.map((run) => (
+        <List.Item
+          key={run.name}
+          icon={STATUS_ICONS[run.status]}
+          title={splitSessionName(run.name).leaf}
+          keywords={[run.name]}
+          detail={
+            <List.Item.Detail
+              markdown={runMarkdown(run)}
+              metadata={
+                <List.Item.Detail.Metadata>
+                  <List.Item.Detail.Metadata.Label title="Session" text={run.name} />
+                  <List.Item.Detail.Metadata.Label title="Status" text={run.status} />
+                  {run.exitCode !== undefined && (
+                    <List.Item.Detail.Metadata.Label title="Exit code" text={String(run.exitCode ?? "killed")} />
+                  )}
+                  {run.startedAt && run.endedAt && (
+                    <List.Item.Detail.Metadata.Label
+                      title="Duration"
+                      text={`${((run.endedAt - run.startedAt) / 1000).toFixed(1)} s`}
+                    />
+                  )}
+                </List.Item.Detail.Metadata>
+              }
+            />
+          }
+          actions={
+            <ActionPanel>
+              <Action.CopyToClipboard title="Copy Output" content={run.stdout} />
+              <Action.CopyToClipboard title="Copy Errors" content={run.stderr || run.error || ""} />
+              <Action.CopyToClipboard
+                title="Copy Report for All Hosts"
+                content={report}
+                shortcut={{ modifiers: ["ctrl", "shift"], key: "c" }}
+              />
+              <Action title="Export Report as Text" icon={Icon.Upload} onAction={() => exportReport("txt")} />
+              <Action title="Export Report as JSON" icon={Icon.Upload} onAction={() => exportReport("json")} />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
+
+type RunFormValues = {
+  group: string;
+  sessions: string[];
+  command: string;
+  concurrency: string;
+  timeout: string;
+};
+
+/** Picks sessions by folder, tag or by name, then pushes the results list. */
+export function RunCommandForm(props: { plinkPath: string; names?: string[] }) {
+  const { plinkPath, names } = props;
+  const { push } = useNavigation();
+  const [sessionNames, setSessionNames] = useState<string[]>([]);
+  const [tags, setTags] = useState<TagMap>({});
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [errors, setErrors] = useState<Partial<Record<keyof RunFormValues, string>>>({});
+
+  useEffect(() => {
+    (async () => {
+      setSessionNames((await getSessionStore().list()).map((s) => s.name));
+      setTags(await loadTags());
+      setIsLoading(false);
+    })();
+  }, []);
+
+  const folders = Array.from(new Set(sessionNames.map((n) => splitSessionName(n).folder).filter(Boolean))).sort();
+
+  function handleSubmit(values: RunFormValues) {
+    const filter = parseFilter(values.group);
+    const grouped = values.group
+      ? sessionNames.filter((name) => matchesFilter({ name }, tags[name] ?? [], filter))
+      : [];
+    const targets = Array.from(new Set([...values.sessions, ...grouped]));
+    const concurrency = Number(values.concurrency);
+    const timeout = Number(values.timeout);
+    const next: typeof errors = {};
+    if (targets.length === 0) next.sessions = "Pick sessions or a folder or tag";
+    if (!values.command.trim()) next.command = "Command is required";
+    if (!Number.isInteger(concurrency) || concurrency < 1) next.concurrency = "At least 1";
+    if (!(timeout > 0)) next.timeout = "Seconds, more than 0";
+    setErrors(next);
+    if (Object.keys(next).length > 0) return;
+    push(
+      <RunResults
+        names={targets}
+        command={values.command.trim()}
+        plinkPath={plinkPath}
+        concurrency={concurrency}
+        timeoutMs={timeout * 1000}
+      />,
+    );
+  }
+
+  const clearError = (field: keyof RunFormValues) => () => setErrors((prev) => ({ ...prev, [field]: undefined }));
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle="Run Command on Sessions"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Run Command" icon={Icon.Terminal} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextArea
+        id="command"
+        title="Command"
+        placeholder="uptime"
+        error={errors.command}
+        onChange={clearError("command")}
+      />
+      <Form.Dropdown id="group" title="Folder or tag" defaultValue="">
+        <Form.Dropdown.Item title="Only the sessions below" value="" />
+        <Form.Dropdown.Item title="All sessions" value="all" />
+        {folders.length > 0 && (
+          <Form.Dropdown.Section title="Folders">
+            {folders.map((f) => (
+              <Form.Dropdown.Item key={f} title={f} value={`folder:${f}`} icon={Icon.Folder} />
+            ))}
+          </Form.Dropdown.Section>
+        )}
+        {allTags(tags).length > 0 && (
+          <Form.Dropdown.Section title="Tags">
+            {allTags(tags).map((t) => (
+              <Form.Dropdown.Item key={t} title={t} value={`tag:${t}`} icon={Icon.Tag} />
+            ))}
+          </Form.Dropdown.Section>
+        )}
+      </Form.Dropdown>
+      {!isLoading && (
+        <Form.TagPicker
+          id="sessions"
+          title="Sessions"
+          defaultValue={names ?? []}
+          error={errors.sessions}
+          onChange={clearError("sessions")}
+        >
+          {sessionNames.map((n) => (
+            <Form.TagPicker.Item key={n} value={n} title={n} icon={Icon.Terminal} />
+          ))}
+        </Form.TagPicker>
+      )}
+      <Form.TextField
+        id="concurrency"
+        title="Hosts at a time"
+        defaultValue="4"
+        error={errors.concurrency}
+        onChange={clearError("concurrency")}
+      />
+      <Form.TextField
+        id="timeout"
+        title="Timeout (seconds)"
+        defaultValue="60"
+        error={errors.timeout}
+        onChange={clearError("timeout")}
+      />
+      <Form.Description text="Runs plink -load <session> -batch on each session. Logins that need a password or an unknown host key fail instead of waiting; use a key or Pageant." />
+    </Form>
+  );
+}
@@ -0,0 +1,90 @@
+import { Color, List } from "@raycast/api";
+import { IconSettings, tagColor } from "../lib/icons";
+import { JumpHost } from "../lib/jump-hosts";
+import { serialConfig } from "../lib/putty-args";
+import { ProbeResult } from "../lib/reachability";
+import { describeProxy, equivalentCommand, savedForwards } from "../lib/session-details";
+import { SessionValues } from "../lib/types";
+import { fence } from "./tool-views";
+
+const FORWARD_KINDS = { L: "Local", R: "Remote", D: "Dynamic" } as const;
+
+function reachabilityText(result: ProbeResult | undefined): { text: string; color?: Color } {
+  if (!result) return { text: "Not checked" };
+  if (result.status !== "up") return { text: result.error ?? result.status, color: Color.Red };
+  return { text: `Up, ${result.latencyMs ?? 0} ms`, color: Color.Green };
+}
+
+/** Detail pane of a session; `values` is undefined while it is being read. */
+export function SessionDetail(props: {
+  name: string;
+  values?: SessionValues;
+  jumpHost?: JumpHost;
+  tags: string[];
+  iconSettings: IconSettings;
+  lastOpened?: number;
+  reachability?: ProbeResult;
+}) {
+  const { name, values, jumpHost, tags, iconSettings, lastOpened, reachability } = props;
+  if (!values) return <List.Item.Detail isLoading />;
+
+  const serial = values.Protocol === "serial";
+  const equivalent = equivalentCommand(values, jumpHost);
+  const forwards = savedForwards(values.PortForwardings);
+  const proxy = describeProxy(values, jumpHost);
+  const markdown = [
+    `## ${name}`,
+    ...(equivalent ? [fence(equivalent.command)] : []),
+    ...(equivalent && !equivalent.exact ? ["_Not exact: the proxy or jump host is left out._"] : []),
+    ...(forwards.length > 0
+      ? ["**Port forwarding**", forwards.map((f) => `- ${FORWARD_KINDS[f.kind]} \`${f.spec}\``).join("\n")]
+      : []),
+  ].join("\n\n");
+  const reach = reachabilityText(reachability);
+
+  return (
+    <List.Item.Detail
+      markdown={markdown}
+      metadata={
+        <List.Item.Detail.Metadata>
+          {serial ? (
+            <>
+              <List.Item.Detail.Metadata.Label title="Serial line" text={values.SerialLine} />
+              <List.Item.Detail.Metadata.Label title="Settings" text={serialConfig(values)} />
+            </>
+          ) : (
+            <>
+              <List.Item.Detail.Metadata.Label title="Host" text={values.HostName || "—"} />
+              <List.Item.Detail.Metadata.Label title="Port" text={String(values.PortNumber)} />
+            </>
+          )}
+          <List.Item.Detail.Metadata.Label title="Protocol" text={values.Protocol} />
+          {!serial && <List.Item.Detail.Metadata.Label title="User" text={values.UserName || "—"} />}
+          {values.PublicKeyFile && <List.Item.Detail.Metadata.Label title="Key file" text={values.PublicKeyFile} />}
+          {proxy && <List.Item.Detail.Metadata.Label title="Proxy" text={proxy} />}
+          {forwards.length > 0 && (
+            <List.Item.Detail.Metadata.Label title="Forwards" text={forwards.map((f) => f.kind + f.spec).join(", ")} />
+          )}
+          {tags.length > 0 && (
+            <List.Item.Detail.Metadata.TagList title="Tags">
+              {tags.map((t) => (
+                <List.Item.Detail.Metadata.TagList.Item key={t} text={t} color={tagColor(iconSettings, t)} />
+              ))}
+            </List.Item.Detail.Metadata.TagList>
+          )}
+          <List.Item.Detail.Metadata.Separator />
+          <List.Item.Detail.Metadata.Label
+            title="Last opened"
+            text={lastOpened ? new Date(lastOpened).toLocaleString() : "Never"}
+          />
+          {!serial && (
+            <List.Item.Detail.Metadata.TagList title="Reachability">
+              <List.Item.Detail.Metadata.TagList.Item text={reach.text} color={reach.color} />
+            </List.Item.Detail.Metadata.TagList>
+          )}
+          {reachability?.banner && <List.Item.Detail.Metadata.Label title="Banner" text={reachability.banner} />}
+        </List.Item.Detail.Metadata>
+      }
+    />
+  );
+}
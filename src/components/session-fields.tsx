@@ -0,0 +1,395 @@
+import { Form } from "@raycast/api";
+import { useState } from "react";
+import { Jump, JumpVia, jumpProxyValues, readJump } from "../lib/jump-hosts";
+import { parseTarget, suggestPort, validHost, validPort } from "../lib/targets";
+import { CloseOnExit, Protocol, ProxyMethod, SerialFlowControl, SerialParity, SessionValues } from "../lib/types";
+
+// Fields for the other mode are not rendered, so they are missing from the submitted values
+export type SessionFormValues = {
+  protocol: Protocol;
+  closeOnExit: CloseOnExit;
+  host?: string;
+  port?: string;
+  userName?: string;
+  publicKeyFile?: string[];
+  proxyMethod?: ProxyMethod;
+  proxyHost?: string;
+  proxyPort?: string;
+  proxyUsername?: string;
+  proxyCommand?: string;
+  // A saved session to jump through, instead of the proxy fields; "" for none
+  jumpHost?: string;
+  jumpVia?: JumpVia;
+  serialLine?: string;
+  serialSpeed?: string;
+  serialDataBits?: string;
+  serialStopHalfbits?: string;
+  serialParity?: SerialParity;
+  serialFlowControl?: SerialFlowControl;
+};
+
+export type SessionFormErrors = Partial<Record<keyof SessionFormValues, string>>;
+
+function parseCount(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value !== undefined && value.trim() !== "" && Number.isInteger(n) && n >= 0 ? n : fallback;
+}
+
+/** Errors to show next to each field; empty when the form can be saved. */
+export function sessionFormErrors(form: SessionFormValues): SessionFormErrors {
+  const errors: SessionFormErrors = {};
+  if (form.protocol === "serial") {
+    if (!form.serialLine?.trim()) errors.serialLine = "Required";
+    const speed = Number(form.serialSpeed);
+    if (!Number.isInteger(speed) || speed <= 0) errors.serialSpeed = "Bits per second, e.g. 9600";
+    return errors;
+  }
+  const host = form.host?.trim() ?? "";
+  if (!host) errors.host = "Required";
+  else if (!validHost(host)) errors.host = "No spaces allowed";
+  if (!validPort(Number(form.port))) errors.port = "1 to 65535";
+  // Proxy fields are only rendered, and so only submitted, for the chosen proxy type
+  if (!form.jumpHost && form.proxyMethod === "cmd" && !form.proxyCommand?.trim()) errors.proxyCommand = "Required";
+  if (form.proxyHost !== undefined && !form.proxyHost.trim()) errors.proxyHost = "Required";
+  if (form.proxyPort !== undefined && !validPort(Number(form.proxyPort))) errors.proxyPort = "1 to 65535";
+  return errors;
+}
+
+/**
+ * Copies the form onto a session, leaving every value the form does not show untouched.
+ * Expects a form without `sessionFormErrors`. `plinkPath` goes into the proxy command
+ * of a jump host reached through plink; `jumpPort` is the jump session's port (`jumpSessionPort`).
+ */
+export function applySessionForm(
+  base: SessionValues,
+  form: SessionFormValues,
+  plinkPath = "plink",
+  jumpPort?: number,
+): SessionValues {
+  const common = { ...base, Protocol: form.protocol, CloseOnExit: form.closeOnExit };
+  if (form.protocol === "serial") {
+    return {
+      ...common,
+      SerialLine: form.serialLine?.trim() || base.SerialLine,
+      SerialSpeed: parseCount(form.serialSpeed, base.SerialSpeed),
+      SerialDataBits: parseCount(form.serialDataBits, base.SerialDataBits),
+      SerialStopHalfbits: parseCount(form.serialStopHalfbits, base.SerialStopHalfbits),
+      SerialParity: form.serialParity ?? base.SerialParity,
+      SerialFlowControl: form.serialFlowControl ?? base.SerialFlowControl,
+    };
+  }
+  const connection = {
+    ...common,
+    HostName: form.host?.trim() ?? base.HostName,
+    PortNumber: parseCount(form.port, base.PortNumber),
+    UserName: form.userName?.trim() ?? base.UserName,
+    PublicKeyFile: form.publicKeyFile?.[0] ?? "",
+  };
+  if (form.jumpHost) {
+    return {
+      ...connection,
+      ...jumpProxyValues({ session: form.jumpHost, via: form.jumpVia ?? "ssh", port: jumpPort }, plinkPath),
+    };
+  }
+  return {
+    ...connection,
+    ProxyMethod: form.proxyMethod ?? base.ProxyMethod,
+    ProxyHost: form.proxyHost?.trim() || base.ProxyHost,
+    ProxyPort: parseCount(form.proxyPort, base.ProxyPort),
+    ProxyUsername: form.proxyUsername?.trim() ?? base.ProxyUsername,
+    ProxyTelnetCommand: form.proxyCommand?.trim() || base.ProxyTelnetCommand,
+  };
+}
+
+export function ProtocolDropdownItems() {
+  return (
+    <>
+      <Form.Dropdown.Item title="Raw" value="raw" />
+      <Form.Dropdown.Item title="Telnet" value="telnet" />
+      <Form.Dropdown.Item title="Rlogin" value="rlogin" />
+      <Form.Dropdown.Item title="SSH" value="ssh" />
+      <Form.Dropdown.Item title="Serial" value="serial" />
+    </>
+  );
+}
+
+type FieldErrorProps = {
+  errors: SessionFormErrors;
+  onClearError: (field: keyof SessionFormValues) => void;
+};
+
+/** Line settings for serial sessions. */
+function SerialFields(props: { initial: SessionValues } & FieldErrorProps) {
+  const { initial, errors, onClearError } = props;
+  return (
+    <>
+      <Form.TextField
+        id="serialLine"
+        title="Serial line"
+        placeholder="COM1"
+        defaultValue={initial.SerialLine}
+        error={errors.serialLine}
+        onChange={() => onClearError("serialLine")}
+      />
+      <Form.TextField
+        id="serialSpeed"
+        title="Baud rate"
+        placeholder="9600"
+        defaultValue={String(initial.SerialSpeed)}
+        error={errors.serialSpeed}
+        onChange={() => onClearError("serialSpeed")}
+      />
+      <Form.Dropdown id="serialDataBits" title="Data bits" defaultValue={String(initial.SerialDataBits)}>
+        {[5, 6, 7, 8, 9].map((n) => (
+          <Form.Dropdown.Item key={n} title={String(n)} value={String(n)} />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown id="serialStopHalfbits" title="Stop bits" defaultValue={String(initial.SerialStopHalfbits)}>
+        <Form.Dropdown.Item title="1" value="2" />
+        <Form.Dropdown.Item title="1.5" value="3" />
+        <Form.Dropdown.Item title="2" value="4" />
+      </Form.Dropdown>
+      <Form.Dropdown id="serialParity" title="Parity" defaultValue={initial.SerialParity}>
+        <Form.Dropdown.Item title="None" value="none" />
+        <Form.Dropdown.Item title="Odd" value="odd" />
+        <Form.Dropdown.Item title="Even" value="even" />
+        <Form.Dropdown.Item title="Mark" value="mark" />
+        <Form.Dropdown.Item title="Space" value="space" />
+      </Form.Dropdown>
+      <Form.Dropdown id="serialFlowControl" title="Flow control" defaultValue={initial.SerialFlowControl}>
+        <Form.Dropdown.Item title="None" value="none" />
+        <Form.Dropdown.Item title="XON/XOFF" value="xonxoff" />
+        <Form.Dropdown.Item title="RTS/CTS" value="rtscts" />
+        <Form.Dropdown.Item title="DSR/DTR" value="dsrdtr" />
+      </Form.Dropdown>
+    </>
+  );
+}
+
+/**
+ * Protocol, host, port and user, or the line settings for serial; shared by the add, edit and
+ * temporary launch forms. A `user@host:port`, `ssh://` or `telnet://` target is spread over
+ * the fields when pasted, or when typed once the host field loses focus. Switching protocol
+ * moves a port left at the old protocol's usual one to the new protocol's.
+ */
+export function ConnectionFields(
+  props: {
+    initial: SessionValues;
+    protocol: Protocol;
+    onProtocolChange: (protocol: Protocol) => void;
+    userPlaceholder: string;
+    autoFocus?: boolean;
+  } & FieldErrorProps,
+) {
+  const { initial, protocol, onProtocolChange, userPlaceholder, autoFocus, errors, onClearError } = props;
+  const [host, setHost] = useState<string>(initial.HostName);
+  const [port, setPort] = useState<string>(String(initial.PortNumber));
+  const [user, setUser] = useState<string>(initial.UserName);
+
+  const changeProtocol = (next: Protocol) => {
+    setPort((current) => suggestPort(current, protocol, next));
+    onProtocolChange(next);
+  };
+
+  // Spreads `user@host:port` or a URI over the fields; false when `text` is not one
+  const spreadTarget = (text: string): boolean => {
+    const target = /[@:]/.test(text) ? parseTarget(text) : undefined;
+    if (!target) return false;
+    setHost(target.host);
+    if (target.user) setUser(target.user);
+    if (target.protocol && target.protocol !== protocol) changeProtocol(target.protocol);
+    if (target.port) {
+      setPort(String(target.port));
+      onClearError("port");
+    }
+    return true;
+  };
+
+  const changeHost = (text: string) => {
+    onClearError("host");
+    // Pastes are split up right away; typed text only on blur, since `ssh://r` is already a
+    // valid target halfway through typing `ssh://root@web:22`
+    const pasted = text.length - host.length > 1;
+    if (!pasted || !spreadTarget(text)) setHost(text);
+  };
+
+  return (
+    <>
+      <Form.Dropdown
+        id="protocol"
+        title="Connection type"
+        value={protocol}
+        onChange={(v) => changeProtocol(v as Protocol)}
+      >
+        <ProtocolDropdownItems />
+      </Form.Dropdown>
+      {protocol === "serial" ? (
+        <SerialFields initial={initial} errors={errors} onClearError={onClearError} />
+      ) : (
+        <>
+          <Form.TextField
+            id="host"
+            title="Host name (or IP)"
+            placeholder="example.com, or paste user@host:port"
+            value={host}
+            onChange={changeHost}
+            onBlur={(event) => spreadTarget(event.target.value ?? host)}
+            error={errors.host}
+            autoFocus={autoFocus}
+          />
+          <Form.TextField
+            id="port"
+            title="Port"
+            placeholder="23 for Telnet, 22 for SSH, etc."
+            value={port}
+            onChange={(v) => {
+              setPort(v);
+              onClearError("port");
+            }}
+            error={errors.port}
+          />
+          <Form.TextField
+            id="userName"
+            title="Username"
+            placeholder={userPlaceholder}
+            value={user}
+            onChange={setUser}
+          />
+        </>
+      )}
+    </>
+  );
+}
+
+/**
+ * The fields shared by the add and edit forms. `initial` only seeds the fields, so render
+ * this once the session has been read. Serial sessions get line settings instead of host,
+ * port, login and proxy. `jumpHosts` are the saved sessions offered as jump hosts, without
+ * the session being edited.
+ */
+export function SessionFields(
+  props: { initial: SessionValues; jumpHosts: string[]; autoFocus?: boolean } & FieldErrorProps,
+) {
+  const { initial, jumpHosts, autoFocus, errors, onClearError } = props;
+  const [protocol, setProtocol] = useState<Protocol>(initial.Protocol);
+  const [initialJump] = useState<Jump | undefined>(() => readJump(initial, jumpHosts));
+  const [jumpHost, setJumpHost] = useState<string>(initialJump?.session ?? "");
+  const [proxyMethod, setProxyMethod] = useState<ProxyMethod>(initialJump ? "none" : initial.ProxyMethod);
+  return (
+    <>
+      <ConnectionFields
+        initial={initial}
+        protocol={protocol}
+        onProtocolChange={setProtocol}
+        userPlaceholder="Prompted when empty"
+        autoFocus={autoFocus}
+        errors={errors}
+        onClearError={onClearError}
+      />
+      <Form.Dropdown id="closeOnExit" title="Close window on exit" defaultValue={initial.CloseOnExit}>
+        <Form.Dropdown.Item title="Always" value="always" />
+        <Form.Dropdown.Item title="Never" value="never" />
+        <Form.Dropdown.Item title="Only on clean exit" value="onexit" />
+      </Form.Dropdown>
+      {protocol !== "serial" && (
+        <>
+          <Form.FilePicker
+            id="publicKeyFile"
+            title="Private key (.ppk)"
+            allowMultipleSelection={false}
+            defaultValue={initial.PublicKeyFile ? [initial.PublicKeyFile] : []}
+          />
+          <Form.Separator />
+          <Form.Dropdown
+            id="jumpHost"
+            title="Jump host"
+            value={jumpHost}
+            onChange={(v) => {
+              setJumpHost(v);
+              onClearError("jumpHost");
+            }}
+            error={errors.jumpHost}
+          >
+            <Form.Dropdown.Item title="None" value="" />
+            {/* A session that is no longer saved stays selectable until it is changed */}
+            {[...new Set([...(initialJump ? [initialJump.session] : []), ...jumpHosts])].map((name) => (
+              <Form.Dropdown.Item key={name} title={name} value={name} />
+            ))}
+          </Form.Dropdown>
+          {jumpHost ? (
+            <Form.Dropdown id="jumpVia" title="Jump through" defaultValue={initialJump?.via ?? "ssh"}>
+              <Form.Dropdown.Item title="PuTTY SSH proxy (PuTTY 0.77 or later)" value="ssh" />
+              <Form.Dropdown.Item title="plink -nc (any version)" value="plink" />
+            </Form.Dropdown>
+          ) : (
+            <ProxyFields
+              initial={initial}
+              method={proxyMethod}
+              onMethodChange={setProxyMethod}
+              errors={errors}
+              onClearError={onClearError}
+            />
+          )}
+        </>
+      )}
+    </>
+  );
+}
+
+function ProxyFields(
+  props: {
+    initial: SessionValues;
+    method: ProxyMethod;
+    onMethodChange: (method: ProxyMethod) => void;
+  } & FieldErrorProps,
+) {
+  const { initial, method, onMethodChange, errors, onClearError } = props;
+  return (
+    <>
+      <Form.Dropdown
+        id="proxyMethod"
+        title="Proxy type"
+        value={method}
+        onChange={(v) => onMethodChange(v as ProxyMethod)}
+      >
+        <Form.Dropdown.Item title="None" value="none" />
+        <Form.Dropdown.Item title="SOCKS 4" value="socks4" />
+        <Form.Dropdown.Item title="SOCKS 5" value="socks5" />
+        <Form.Dropdown.Item title="HTTP" value="http" />
+        <Form.Dropdown.Item title="Telnet" value="telnet" />
+        <Form.Dropdown.Item title="Local command" value="cmd" />
+        <Form.Dropdown.Item title="SSH" value="ssh" />
+      </Form.Dropdown>
+      {method !== "none" && method !== "cmd" && (
+        <>
+          <Form.TextField
+            id="proxyHost"
+            title="Proxy host"
+            defaultValue={initial.ProxyHost}
+            error={errors.proxyHost}
+            onChange={() => onClearError("proxyHost")}
+          />
+          <Form.TextField
+            id="proxyPort"
+            title="Proxy port"
+            defaultValue={String(initial.ProxyPort)}
+            error={errors.proxyPort}
+            onChange={() => onClearError("proxyPort")}
+          />
+          <Form.TextField id="proxyUsername" title="Proxy username" defaultValue={initial.ProxyUsername} />
+        </>
+      )}
+      {(method === "telnet" || method === "cmd") && (
+        <Form.TextField
+          id="proxyCommand"
+          title={method === "cmd" ? "Proxy command" : "Telnet command"}
+          placeholder={method === "cmd" ? "plink bastion -nc %host:%port" : "connect %host %port\\n"}
+          info="%host and %port are replaced with the destination"
+          defaultValue={initial.ProxyTelnetCommand}
+          error={errors.proxyCommand}
+          onChange={() => onClearError("proxyCommand")}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,114 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Form,
+  Icon,
+  List,
+  Toast,
+  confirmAlert,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { useEffect, useState } from "react";
+import { getSessionStore } from "../lib/session-store";
+import { TemplateMap, deleteTemplate, loadTemplates, saveSessionAsTemplate } from "../lib/templates";
+
+export function SaveTemplateForm(props: { sessionName: string }) {
+  const { sessionName } = props;
+  const { pop } = useNavigation();
+  const [nameError, setNameError] = useState<string | undefined>();
+
+  async function handleSubmit(values: { name: string }) {
+    const name = values.name.trim();
+    if (!name) {
+      setNameError("Name is required");
+      return;
+    }
+    if (name in (await loadTemplates())) {
+      const confirmed = await confirmAlert({
+        title: `Replace template "${name}"?`,
+        primaryAction: { title: "Replace", style: Alert.ActionStyle.Destructive },
+      });
+      if (!confirmed) return;
+    }
+    try {
+      await saveSessionAsTemplate(getSessionStore(), sessionName, name);
+      await showToast({ style: Toast.Style.Success, title: "Template saved", message: name });
+      pop();
+    } catch (e) {
+      await showToast({ style: Toast.Style.Failure, title: "Failed to save template", message: (e as Error).message });
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={`Save ${sessionName} as Template`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Template" icon={Icon.Document} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="New connections can start from this session's settings. The host name is not kept." />
+      <Form.TextField
+        id="name"
+        title="Template name"
+        placeholder="Prod SSH via bastion"
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+    </Form>
+  );
+}
+
+export function ManageTemplates(props: { onChanged: (templates: TemplateMap) => void }) {
+  const { onChanged } = props;
+  const [templates, setTemplates] = useState<TemplateMap>({});
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    (async () => {
+      setTemplates(await loadTemplates());
+      setIsLoading(false);
+    })();
+  }, []);
+
+  async function remove(name: string) {
+    const next = await deleteTemplate(name);
+    setTemplates(next);
+    onChanged(next);
+    await showToast({ style: Toast.Style.Success, title: "Template deleted", message: name });
+  }
+
+  return (
+    <List isLoading={isLoading} navigationTitle="Session Templates">
+      <List.EmptyView
+        icon={Icon.Document}
+        title="No templates yet"
+        description="Use Save as Template on a session in Search PuTTY Connections."
+      />
+      {Object.entries(templates)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, values]) => (
+          <List.Item
+            key={name}
+            icon={Icon.Document}
+            title={name}
+            subtitle={`${values.Protocol}:${values.PortNumber}`}
+            accessories={values.UserName ? [{ text: values.UserName, icon: Icon.Person }] : []}
+            actions={
+              <ActionPanel>
+                <Action
+                  title="Delete Template"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  onAction={() => remove(name)}
+                />
+              </ActionPanel>
+            }
+          />
+        ))}
+    </List>
+  );
+}
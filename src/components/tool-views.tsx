@@ -0,0 +1,145 @@
+import { Action, ActionPanel, Detail, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import { plinkArgs } from "../lib/remote-run";
+import { getSessionStore } from "../lib/session-store";
+import { ProcessResult, runProcess } from "../lib/tools";
+
+const COMMAND_TIMEOUT = 60 * 1000;
+const COPY_TIMEOUT = 10 * 60 * 1000;
+
+/** Markdown code block for command output. */
+export function fence(text: string): string {
+  // A fence longer than any backtick run in the output, so it cannot close early
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marks = "`".repeat(longest + 1);
+  return `${marks}\n${text.trimEnd() || "(no output)"}\n${marks}`;
+}
+
+function describeExit(result: ProcessResult): string {
+  if (result.timedOut) return "Timed out";
+  return result.exitCode === null ? "Killed" : `Exit code ${result.exitCode}`;
+}
+
+export function CommandOutput(props: { title: string; command: string; result: ProcessResult }) {
+  const { title, command, result } = props;
+  const markdown = [
+    `**${title}**`,
+    fence(result.stdout),
+    ...(result.stderr.trim() ? ["**stderr**", fence(result.stderr)] : []),
+  ].join("\n\n");
+  return (
+    <Detail
+      navigationTitle={title}
+      markdown={markdown}
+      metadata={
+        <Detail.Metadata>
+          <Detail.Metadata.Label title="Command" text={command} />
+          <Detail.Metadata.Label title="Result" text={describeExit(result)} />
+        </Detail.Metadata>
+      }
+      actions={
+        <ActionPanel>
+          <Action.CopyToClipboard title="Copy Output" content={result.stdout} />
+          <Action.CopyToClipboard title="Copy Errors" content={result.stderr} />
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+export function RemoteCommandForm(props: { sessionName: string; plinkPath: string }) {
+  const { sessionName, plinkPath } = props;
+  const { push } = useNavigation();
+  const [commandError, setCommandError] = useState<string | undefined>();
+
+  async function handleSubmit(values: { command: string }) {
+    const command = values.command.trim();
+    if (!command) {
+      setCommandError("Command is required");
+      return;
+    }
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Running command…", message: sessionName });
+    try {
+      const result = await runProcess(plinkPath, plinkArgs(sessionName, command), COMMAND_TIMEOUT);
+      await toast.hide();
+      push(<CommandOutput title={sessionName} command={command} result={result} />);
+    } catch (e) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to start plink";
+      toast.message = (e as Error).message;
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={`Run on ${sessionName}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Run Command" icon={Icon.Terminal} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextArea
+        id="command"
+        title="Command"
+        placeholder="uptime"
+        error={commandError}
+        onChange={() => setCommandError(undefined)}
+      />
+      <Form.Description text="Runs without a window through the saved session. Logins that need a password or an unknown host key fail; use a key or Pageant." />
+    </Form>
+  );
+}
+
+export function CopyFileForm(props: { sessionName: string; pscpPath: string }) {
+  const { sessionName, pscpPath } = props;
+  const { push, pop } = useNavigation();
+  const [filesError, setFilesError] = useState<string | undefined>();
+
+  async function handleSubmit(values: { files: string[]; remotePath: string }) {
+    if (values.files.length === 0) {
+      setFilesError("Pick at least one file");
+      return;
+    }
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Copying files…", message: sessionName });
+    try {
+      const { HostName } = await getSessionStore().read(sessionName);
+      const target = `${HostName}:${values.remotePath.trim() || "."}`;
+      const args = ["-load", sessionName, "-batch", "-q", ...values.files, target];
+      const result = await runProcess(pscpPath, args, COPY_TIMEOUT);
+      if (result.exitCode === 0) {
+        toast.style = Toast.Style.Success;
+        toast.title = values.files.length === 1 ? "File copied" : `Copied ${values.files.length} files`;
+        toast.message = target;
+        pop();
+      } else {
+        await toast.hide();
+        push(<CommandOutput title="Copy Failed" command={`pscp … ${target}`} result={result} />);
+      }
+    } catch (e) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to start pscp";
+      toast.message = (e as Error).message;
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={`Copy to ${sessionName}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Copy Files" icon={Icon.Upload} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.FilePicker
+        id="files"
+        title="Files"
+        allowMultipleSelection
+        error={filesError}
+        onChange={() => setFilesError(undefined)}
+      />
+      <Form.TextField id="remotePath" title="Remote path" placeholder="Home directory when empty, e.g. /tmp/" />
+    </Form>
+  );
+}
@@ -0,0 +1,95 @@
+import { Action, ActionPanel, Alert, Color, Icon, List, Toast, confirmAlert, showToast } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { getSessionStore } from "../lib/session-store";
+import { TrashEntry, emptyTrash, loadTrash, purgeFromTrash, restoreFromTrash } from "../lib/trash";
+
+function describe(entry: TrashEntry): string {
+  const { HostName, UserName, PortNumber } = entry.values;
+  if (!HostName) return entry.values.Protocol === "serial" ? entry.values.SerialLine : "";
+  return `${UserName ? `${UserName}@` : ""}${HostName}:${PortNumber}`;
+}
+
+/** Snapshots taken before sessions were deleted or edited, newest first. */
+export function RecentlyDeleted(props: { onRestored: () => void }) {
+  const { onRestored } = props;
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    (async () => {
+      setEntries(await loadTrash());
+      setIsLoading(false);
+    })();
+  }, []);
+
+  async function restore(entry: TrashEntry) {
+    try {
+      const name = await restoreFromTrash(getSessionStore(), entry);
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+      onRestored();
+      await showToast({ style: Toast.Style.Success, title: "Session restored", message: name });
+    } catch (e) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to restore session",
+        message: (e as Error).message,
+      });
+    }
+  }
+
+  async function purge(entry: TrashEntry) {
+    setEntries(await purgeFromTrash(entry.id));
+  }
+
+  async function purgeAll() {
+    const confirmed = await confirmAlert({
+      title: "Empty Recently Deleted?",
+      message: "Deleted sessions and earlier versions can no longer be restored.",
+      primaryAction: { title: "Empty", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    await emptyTrash();
+    setEntries([]);
+  }
+
+  const renderItem = (entry: TrashEntry) => (
+    <List.Item
+      key={entry.id}
+      icon={entry.kind === "deleted" ? { source: Icon.Trash, tintColor: Color.Red } : Icon.Clock}
+      title={entry.name}
+      subtitle={describe(entry)}
+      accessories={[{ date: new Date(entry.at), tooltip: new Date(entry.at).toLocaleString() }]}
+      actions={
+        <ActionPanel>
+          <Action
+            title={entry.kind === "deleted" ? "Restore Session" : "Restore This Version"}
+            icon={Icon.ArrowCounterClockwise}
+            onAction={() => restore(entry)}
+          />
+          <Action
+            title="Delete Permanently"
+            icon={Icon.XMarkCircle}
+            style={Action.Style.Destructive}
+            onAction={() => purge(entry)}
+            shortcut={{ modifiers: ["ctrl"], key: "x" }}
+          />
+          <Action
+            title="Empty Recently Deleted"
+            icon={Icon.Trash}
+            style={Action.Style.Destructive}
+            onAction={purgeAll}
+            shortcut={{ modifiers: ["ctrl", "shift"], key: "x" }}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+
+  return (
+    <List isLoading={isLoading} navigationTitle="Recently Deleted" searchBarPlaceholder="Filter deleted sessions…">
+      <List.EmptyView icon={Icon.Trash} title="Nothing deleted or edited yet" />
+      <List.Section title="Deleted">{entries.filter((e) => e.kind === "deleted").map(renderItem)}</List.Section>
+      <List.Section title="Before Edits">{entries.filter((e) => e.kind === "edited").map(renderItem)}</List.Section>
+    </List>
+  );
+}
@@ -0,0 +1,147 @@
+import {
+  Action,
+  ActionPanel,
+  Clipboard,
+  Color,
+  Icon,
+  Keyboard,
+  List,
+  getPreferenceValues,
+  openExtensionPreferences,
+  showInFinder,
+} from "@raycast/api";
+import { ReactNode, useEffect, useState } from "react";
+import { Check, CheckStatus, Diagnostics, runDiagnostics } from "./lib/diagnostics";
+import { SESSIONS_KEY } from "./lib/session-store";
+import { Preferences } from "./lib/types";
+
+const STATUS_ICONS: Record<CheckStatus, List.Item.Props["icon"]> = {
+  ok: { source: Icon.CheckCircle, tintColor: Color.Green },
+  warning: { source: Icon.Warning, tintColor: Color.Yellow },
+  error: { source: Icon.XMarkCircle, tintColor: Color.Red },
+};
+
+const INSTALL_COMMANDS = [
+  { title: "Copy Winget Install Command", command: "winget install PuTTY.PuTTY" },
+  { title: "Copy Scoop Install Command", command: "scoop install putty" },
+  { title: "Copy Chocolatey Install Command", command: "choco install putty" },
+];
+
+export default function Command() {
+  const preferences = getPreferenceValues<Preferences>();
+  const [diagnostics, setDiagnostics] = useState<Diagnostics | undefined>();
+  const [runKey, setRunKey] = useState<number>(0);
+
+  useEffect(() => {
+    (async () => {
+      setDiagnostics(undefined);
+      setDiagnostics(await runDiagnostics(preferences));
+    })();
+  }, [runKey]);
+
+  const rerun = (
+    <Action
+      title="Run Checks Again"
+      icon={Icon.ArrowClockwise}
+      onAction={() => setRunKey((k) => k + 1)}
+      shortcut={Keyboard.Shortcut.Common.Refresh}
+    />
+  );
+  const openPreferences = (
+    <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+  );
+
+  const checkItem = (id: string, title: string, check: Check, fixes?: ReactNode) => (
+    <List.Item
+      key={id}
+      icon={STATUS_ICONS[check.status]}
+      title={title}
+      subtitle={check.summary}
+      accessories={check.detail ? [{ icon: Icon.Info, tooltip: check.detail }] : []}
+      actions={
+        <ActionPanel>
+          {fixes}
+          {check.detail && <Action.CopyToClipboard title="Copy Details" content={check.detail} />}
+          {rerun}
+        </ActionPanel>
+      }
+    />
+  );
+
+  if (!diagnostics) return <List isLoading searchBarPlaceholder="Running checks…" />;
+  const { configuredPath, configuredExists, discovered } = diagnostics;
+  const inUse = configuredExists ? configuredPath : discovered[0];
+
+  const pathCheck: Check = configuredExists
+    ? { status: "ok", summary: configuredPath }
+    : {
+        status: discovered.length > 0 ? "warning" : "error",
+        summary: configuredPath ? `Not found: ${configuredPath}` : "Not set",
+        detail: discovered.length > 0 ? `Using ${discovered[0]} instead` : undefined,
+      };
+
+  return (
+    <List navigationTitle="PuTTY Diagnostics">
+      <List.Section title="PuTTY">
+        {checkItem("path", "PuTTY Executable Path", pathCheck, openPreferences)}
+        {discovered.map((path) => (
+          <List.Item
+            key={path}
+            icon={Icon.Terminal}
+            title="Found putty.exe"
+            subtitle={path}
+            accessories={path === inUse ? [{ tag: { value: "In use", color: Color.Green } }] : []}
+            actions={
+              <ActionPanel>
+                <Action
+                  title="Copy Path and Open Preferences"
+                  icon={Icon.Gear}
+                  onAction={async () => {
+                    await Clipboard.copy(path);
+                    await openExtensionPreferences();
+                  }}
+                />
+                <Action title="Show in Explorer" icon={Icon.Finder} onAction={() => showInFinder(path)} />
+                {rerun}
+              </ActionPanel>
+            }
+          />
+        ))}
+        {discovered.length === 0 &&
+          !configuredExists &&
+          checkItem(
+            "install",
+            "Install PuTTY",
+            {
+              status: "error",
+              summary: "putty.exe is not in Program Files, Scoop, Chocolatey or on PATH",
+            },
+            <>
+              <Action.OpenInBrowser
+                title="Download PuTTY"
+                url="https://www.chiark.greenend.org.uk/~sgtatham/putty/latest.html"
+              />
+              {INSTALL_COMMANDS.map(({ title, command }) => (
+                <Action.CopyToClipboard key={command} title={title} content={command} />
+              ))}
+            </>,
+          )}
+        {checkItem("version", "Version", diagnostics.version)}
+      </List.Section>
+      <List.Section title="Saved Sessions">
+        {checkItem(
+          "read",
+          "Read Access",
+          diagnostics.sessionsRead,
+          <Action.CopyToClipboard title="Copy Registry Key" content={SESSIONS_KEY} />,
+        )}
+        {checkItem(
+          "write",
+          "Write Access",
+          diagnostics.sessionsWrite,
+          <Action.CopyToClipboard title="Copy Registry Key" content={SESSIONS_KEY} />,
+        )}
+      </List.Section>
+    </List>
+  );
+}
@@ -0,0 +1,43 @@
+import { Action, ActionPanel, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
+import { ImportPreview } from "./components/import-preview";
+import { planImport } from "./lib/session-import";
+import { getSessionStore } from "./lib/session-store";
+import { readSessionsFile } from "./lib/session-transfer";
+
+export default function Command() {
+  const { push } = useNavigation();
+
+  async function handleSubmit(values: { file: string[] }) {
+    const file = values.file[0];
+    if (!file) {
+      await showToast({ style: Toast.Style.Failure, title: "Choose a .reg or JSON file" });
+      return;
+    }
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Reading sessions…" });
+    try {
+      const candidates = await readSessionsFile(file);
+      const store = getSessionStore();
+      const items = await planImport(store, candidates);
+      const existingNames = (await store.list()).map((s) => s.name);
+      await toast.hide();
+      push(<ImportPreview items={items} existingNames={existingNames} />);
+    } catch (e) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Invalid sessions file";
+      toast.message = (e as Error).message;
+    }
+  }
+
+  return (
+    <Form
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Preview Import" icon={Icon.Eye} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Accepts .reg files exported from regedit or this extension, and JSON exports from this extension. Nothing is written before you confirm the preview." />
+      <Form.FilePicker id="file" title="Sessions file" allowMultipleSelection={false} />
+    </Form>
+  );
+}
@@ -0,0 +1,60 @@
+import { Action, ActionPanel, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
+import { existsSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { ImportPreview } from "./components/import-preview";
+import { planImport } from "./lib/session-import";
+import { getSessionStore } from "./lib/session-store";
+import { parseSshConfig, sshHostToCandidate } from "./lib/ssh-config";
+
+export default function Command() {
+  const { push } = useNavigation();
+  const defaultConfig = join(homedir(), ".ssh", "config");
+
+  async function handleSubmit(values: { file: string[] }) {
+    const file = values.file[0];
+    if (!file) {
+      await showToast({ style: Toast.Style.Failure, title: "Choose an ssh_config file" });
+      return;
+    }
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Reading ssh_config…" });
+    try {
+      const hosts = await parseSshConfig(file);
+      if (hosts.length === 0) {
+        toast.style = Toast.Style.Failure;
+        toast.title = "No concrete Host entries found";
+        return;
+      }
+      const store = getSessionStore();
+      const items = await planImport(
+        store,
+        hosts.map((h) => sshHostToCandidate(h, hosts)),
+      );
+      const existingNames = (await store.list()).map((s) => s.name);
+      await toast.hide();
+      push(<ImportPreview items={items} existingNames={existingNames} />);
+    } catch (e) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to read ssh_config";
+      toast.message = (e as Error).message;
+    }
+  }
+
+  return (
+    <Form
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Preview Import" icon={Icon.Eye} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Creates a PuTTY session for every Host alias. Wildcard Host blocks only supply defaults." />
+      <Form.FilePicker
+        id="file"
+        title="ssh_config file"
+        allowMultipleSelection={false}
+        defaultValue={existsSync(defaultConfig) ? [defaultConfig] : []}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,95 @@
+import { LocalStorage } from "@raycast/api";
+import { beforeEach, describe, expect, it } from "vitest";
+import { bulkEdit, mapWithConcurrency, parseBulkValue, runBatch } from "./batch";
+import { DEFAULT_SESSION_VALUES } from "./session-schema";
+import { SessionStore, createMemorySessionStore } from "./session-store";
+import { restoreAllFromTrash } from "./trash";
+import { SessionValues } from "./types";
+
+const session = (v: Partial<SessionValues>): SessionValues => ({ ...DEFAULT_SESSION_VALUES, extra: [], ...v });
+
+// A store whose writes to `broken` fail, the way reg.exe does for a key without access
+function withBrokenSession(store: SessionStore, broken: string): SessionStore {
+  return {
+    ...store,
+    write: async (name, values) => {
+      if (name === broken) throw new Error("Access is denied.");
+      return store.write(name, values);
+    },
+  };
+}
+
+describe("runBatch", () => {
+  it("reports every session and carries on after a failure", async () => {
+    const done: string[] = [];
+    const results = await runBatch(["web", "db", "mail"], async (name) => {
+      if (name === "db") throw new Error("Access is denied.");
+      done.push(name);
+    });
+    expect(results).toEqual([{ name: "web" }, { name: "db", error: "Access is denied." }, { name: "mail" }]);
+    expect(done).toEqual(["web", "mail"]);
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("keeps the order of the items and the limit of calls in flight", async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 0], 2, async (ms) => {
+      peak = Math.max(peak, ++running);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      running--;
+      return ms * 2;
+    });
+    expect(results).toEqual([60, 20, 40, 0]);
+    expect(peak).toBe(2);
+  });
+});
+
+describe("parseBulkValue", () => {
+  it("checks ports and the option lists", () => {
+    expect(parseBulkValue("PortNumber", " 2222 ")).toEqual({ PortNumber: 2222 });
+    expect(() => parseBulkValue("PortNumber", "70000")).toThrow("Port must be 1-65535");
+    expect(parseBulkValue("Protocol", "telnet")).toEqual({ Protocol: "telnet" });
+    expect(() => parseBulkValue("Protocol", "supdup")).toThrow("Use one of raw, telnet, rlogin, ssh, serial");
+    expect(parseBulkValue("CloseOnExit", "never")).toEqual({ CloseOnExit: "never" });
+    expect(() => parseBulkValue("CloseOnExit", "sometimes")).toThrow("Use one of always, never, onexit");
+    expect(parseBulkValue("UserName", " deploy ")).toEqual({ UserName: "deploy" });
+  });
+});
+
+describe("bulkEdit", () => {
+  beforeEach(async () => {
+    await LocalStorage.clear();
+  });
+
+  it("sets the value on every session and leaves the others alone", async () => {
+    const store = createMemorySessionStore({
+      web: session({ HostName: "web.example.com", UserName: "root" }),
+      db: session({ HostName: "db.example.com", PortNumber: 2222 }),
+      mail: session({ HostName: "mail.example.com" }),
+    });
+    const { results, snapshots } = await bulkEdit(store, ["web", "db"], { UserName: "deploy" });
+    expect(results).toEqual([{ name: "web" }, { name: "db" }]);
+    expect(await store.read("web")).toMatchObject({ HostName: "web.example.com", UserName: "deploy" });
+    expect(await store.read("db")).toMatchObject({ PortNumber: 2222, UserName: "deploy" });
+    expect((await store.read("mail")).UserName).toBe("");
+
+    await restoreAllFromTrash(store, snapshots);
+    expect((await store.read("web")).UserName).toBe("root");
+    expect((await store.read("db")).UserName).toBe("");
+  });
+
+  it("reports the sessions it could not write and still edits the rest", async () => {
+    const store = createMemorySessionStore({
+      web: session({ HostName: "web.example.com" }),
+      db: session({ HostName: "db.example.com" }),
+      mail: session({ HostName: "mail.example.com" }),
+    });
+    const { results } = await bulkEdit(withBrokenSession(store, "db"), ["web", "db", "mail"], { PortNumber: 2200 });
+    expect(results).toEqual([{ name: "web" }, { name: "db", error: "Access is denied." }, { name: "mail" }]);
+    expect((await store.read("web")).PortNumber).toBe(2200);
+    expect((await store.read("db")).PortNumber).toBe(22);
+    expect((await store.read("mail")).PortNumber).toBe(2200);
+  });
+});
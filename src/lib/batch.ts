@@ -0,0 +1,85 @@
+import { SessionStore } from "./session-store";
+import { TrashEntry, snapshotSession } from "./trash";
+import { CloseOnExit, KnownSessionValues, Protocol } from "./types";
+
+export type BatchResult = {
+  name: string;
+  error?: string;
+};
+
+/**
+ * Runs `action` for every session, one at a time so reg.exe is not started dozens of times
+ * in parallel, and collects a result per session instead of stopping at the first failure.
+ */
+export async function runBatch(names: string[], action: (name: string) => Promise<void>): Promise<BatchResult[]> {
+  const results: BatchResult[] = [];
+  for (const name of names) {
+    try {
+      await action(name);
+      results.push({ name });
+    } catch (e) {
+      results.push({ name, error: (e as Error).message });
+    }
+  }
+  return results;
+}
+
+/** Like Promise.all over `items`, but with at most `limit` calls of `fn` in flight. */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// The fields that make sense to set to one value across many sessions
+export const BULK_FIELDS = {
+  PortNumber: "Port",
+  Protocol: "Connection type",
+  CloseOnExit: "Close window on exit",
+  UserName: "Username",
+  PublicKeyFile: "Private key file",
+  TerminalType: "Terminal type",
+} satisfies Partial<Record<keyof KnownSessionValues, string>>;
+
+export type BulkField = keyof typeof BULK_FIELDS;
+
+const PROTOCOLS: Protocol[] = ["raw", "telnet", "rlogin", "ssh", "serial"];
+const CLOSE_ON_EXIT: CloseOnExit[] = ["always", "never", "onexit"];
+
+/** Validates user input for a bulk edit. Throws with a message meant for the form. */
+export function parseBulkValue(field: BulkField, raw: string): Partial<KnownSessionValues> {
+  const value = raw.trim();
+  switch (field) {
+    case "PortNumber": {
+      const port = Number(value);
+      if (!Number.isInteger(port) || port <= 0 || port > 65535) throw new Error("Port must be 1-65535");
+      return { PortNumber: port };
+    }
+    case "Protocol":
+      if (!PROTOCOLS.includes(value as Protocol)) throw new Error(`Use one of ${PROTOCOLS.join(", ")}`);
+      return { Protocol: value as Protocol };
+    case "CloseOnExit":
+      if (!CLOSE_ON_EXIT.includes(value as CloseOnExit)) throw new Error(`Use one of ${CLOSE_ON_EXIT.join(", ")}`);
+      return { CloseOnExit: value as CloseOnExit };
+    default:
+      return { [field]: value };
+  }
+}
+
+/** Applies `patch` to every session, keeping a snapshot of each first so the edit can be undone. */
+export async function bulkEdit(store: SessionStore, names: string[], patch: Partial<KnownSessionValues>) {
+  const snapshots: TrashEntry[] = [];
+  const results = await runBatch(names, async (name) => {
+    const snapshot = await snapshotSession(store, name, "edited");
+    snapshots.push(snapshot);
+    await store.write(name, { ...snapshot.values, ...patch });
+  });
+  return { results, snapshots };
+}
@@ -0,0 +1,85 @@
+import { dirname, join } from "node:path";
+import { fileExists } from "./putty";
+import { regQueryArgs, runReg } from "./registry";
+import { DEFAULT_SESSION_VALUES } from "./session-schema";
+import { SCRATCH_SESSION, SESSIONS_KEY, getSessionStore } from "./session-store";
+import { discoverTool, runProcess } from "./tools";
+import { Preferences } from "./types";
+
+export type CheckStatus = "ok" | "warning" | "error";
+
+export type Check = {
+  status: CheckStatus;
+  summary: string;
+  detail?: string;
+};
+
+export type Diagnostics = {
+  configuredPath: string;
+  configuredExists: boolean;
+  // Every putty.exe found, in the order the commands would pick them
+  discovered: string[];
+  version: Check;
+  sessionsRead: Check;
+  sessionsWrite: Check;
+};
+
+/**
+ * putty.exe answers -V with a dialog box rather than on stdout, so the version is asked
+ * from plink next to it, which comes from the same release.
+ */
+export async function puttyVersion(puttyPath: string): Promise<Check> {
+  const plink = join(dirname(puttyPath), "plink.exe");
+  if (!(await fileExists(plink))) {
+    return { status: "warning", summary: "Unknown", detail: `plink.exe was not found next to ${puttyPath}` };
+  }
+  try {
+    const { stdout } = await runProcess(plink, ["-V"], 5000);
+    const release = /Release ([\d.]+)/.exec(stdout)?.[1];
+    const firstLine = stdout.split(/\r?\n/)[0].replace(/^plink:\s*/, "");
+    return { status: "ok", summary: release ? `Release ${release}` : firstLine || "Unknown", detail: stdout.trim() };
+  } catch (e) {
+    return { status: "warning", summary: "Unknown", detail: (e as Error).message };
+  }
+}
+
+async function checkSessionsRead(): Promise<Check> {
+  if (process.platform !== "win32") {
+    return { status: "ok", summary: "Using the extension's own sessions file (not on Windows)" };
+  }
+  try {
+    await runReg(regQueryArgs(SESSIONS_KEY));
+    return { status: "ok", summary: "Readable" };
+  } catch (e) {
+    const message = (e as Error).message;
+    // PuTTY creates the key with the first saved session
+    if (/unable to find/i.test(message)) return { status: "ok", summary: "No sessions saved yet" };
+    return { status: "error", summary: "Cannot read", detail: message };
+  }
+}
+
+async function checkSessionsWrite(): Promise<Check> {
+  const store = getSessionStore();
+  try {
+    await store.write(SCRATCH_SESSION, { ...DEFAULT_SESSION_VALUES, extra: [] });
+    await store.delete(SCRATCH_SESSION);
+    return { status: "ok", summary: "Writable" };
+  } catch (e) {
+    return { status: "error", summary: "Cannot write", detail: (e as Error).message };
+  }
+}
+
+export async function runDiagnostics(prefs: Preferences): Promise<Diagnostics> {
+  const configuredPath = prefs.puttyPath?.trim() ?? "";
+  const configuredExists = !!configuredPath && (await fileExists(configuredPath));
+  const discovered = await discoverTool("putty", configuredPath);
+  const usable = configuredExists ? configuredPath : discovered[0];
+  return {
+    configuredPath,
+    configuredExists,
+    discovered,
+    version: usable ? await puttyVersion(usable) : { status: "error", summary: "PuTTY not found" },
+    sessionsRead: await checkSessionsRead(),
+    sessionsWrite: await checkSessionsWrite(),
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { SearchField, editDistance, highlight, matchField, matchFields } from "./fuzzy";
+
+// The fields Search Connections offers for a session
+function fields(values: Partial<Record<"name" | "host" | "user" | "port" | "protocol" | "tags", string>>) {
+  return (["name", "host", "user", "port", "protocol", "tags"] as const).map(
+    (label): SearchField => ({ label, value: values[label] ?? "" }),
+  );
+}
+
+const web = fields({
+  name: "prod-web",
+  host: "10.20.30.41",
+  user: "root",
+  port: "2222",
+  protocol: "ssh",
+  tags: "prod eu",
+});
+const db = fields({
+  name: "staging-db",
+  host: "db.staging.example.com",
+  user: "postgres",
+  port: "22",
+  protocol: "ssh",
+});
+const switchPort = fields({ name: "core-switch", host: "172.16.0.2", port: "23", protocol: "telnet" });
+
+describe("matchFields", () => {
+  it("finds a session by a fragment of its IP address", () => {
+    expect(matchFields("30.41", web)).toMatchObject({ label: "host", ranges: [[6, 11]] });
+    expect(matchFields("30.41", db)).toBeUndefined();
+  });
+
+  it("matches user@ against the user field only", () => {
+    expect(matchFields("root@", web)).toMatchObject({ label: "user", value: "root" });
+    expect(matchFields("root@", switchPort)).toBeUndefined();
+    expect(matchFields("prod@", web)).toBeUndefined();
+  });
+
+  it("matches both halves of user@host", () => {
+    expect(matchFields("root@10.20", web)).toMatchObject({ label: "host" });
+    expect(matchFields("root@staging", web)).toBeUndefined();
+    expect(matchFields("@db.staging", db)).toMatchObject({ label: "host" });
+  });
+
+  it("finds sessions by port and protocol", () => {
+    expect(matchFields("2222", web)).toMatchObject({ label: "port", value: "2222" });
+    expect(matchFields("telnet", switchPort)).toMatchObject({ label: "protocol", value: "telnet" });
+    expect(matchFields("telnet", web)).toBeUndefined();
+  });
+
+  it("allows one typo in a longer word", () => {
+    expect(matchFields("stagign", db)).toMatchObject({ label: "name" });
+    expect(matchFields("postgers", db)).toMatchObject({ label: "user" });
+  });
+
+  it("needs every word to match", () => {
+    expect(matchFields("prod eu", web)).toMatchObject({ label: "name" });
+    expect(matchFields("prod us", web)).toBeUndefined();
+  });
+
+  it("ranks exact and prefix matches above the rest", () => {
+    const exact = matchFields("ssh", fields({ protocol: "ssh" }))!;
+    const prefix = matchFields("ssh", fields({ name: "ssh-gateway" }))!;
+    const inner = matchFields("ssh", fields({ name: "gatewayssh" }))!;
+    const subsequence = matchFields("ssh", fields({ name: "south-shore" }))!;
+    expect(exact.score).toBeGreaterThan(prefix.score);
+    expect(prefix.score).toBeGreaterThan(inner.score);
+    expect(inner.score).toBeGreaterThan(subsequence.score);
+  });
+});
+
+describe("matchField", () => {
+  it("matches characters in order", () => {
+    expect(matchField("pdb", "prod-db")?.ranges).toEqual([
+      [0, 1],
+      [3, 4],
+      [6, 7],
+    ]);
+  });
+
+  it("needs short queries to be exact", () => {
+    expect(matchField("sxh", "ssh")).toBeUndefined();
+  });
+});
+
+describe("editDistance", () => {
+  it("counts a swap of neighbours as one edit", () => {
+    expect(editDistance("stagign", "staging")).toBe(1);
+    expect(editDistance("web", "wbe")).toBe(1);
+    expect(editDistance("", "abc")).toBe(3);
+  });
+});
+
+describe("highlight", () => {
+  it("wraps every range", () => {
+    expect(
+      highlight("prod-db", [
+        [0, 1],
+        [5, 7],
+      ]),
+    ).toBe("[p]rod-[db]");
+    expect(highlight("prod-db", [[5, 7]], "**", "**")).toBe("prod-**db**");
+  });
+});
@@ -0,0 +1,135 @@
+export type SearchField = {
+  // Shown to the user when this field is the one that matched, e.g. "host"
+  label: string;
+  value: string;
+};
+
+export type FieldMatch = {
+  label: string;
+  value: string;
+  score: number;
+  // Matched characters in `value`, as [start, end) ranges
+  ranges: [number, number][];
+};
+
+/** Optimal string alignment distance: Levenshtein plus transposition of neighbours. */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// Typos allowed for a query of this length; short queries must be exact
+function typoBudget(length: number): number {
+  if (length < 4) return 0;
+  return length < 8 ? 1 : 2;
+}
+
+function isBoundary(value: string, index: number): boolean {
+  return index === 0 || /[\s._\-/@:]/.test(value[index - 1]);
+}
+
+/**
+ * Scores one query against one field value. Substrings beat in-order subsequences, which
+ * beat near-misses within the typo budget. Returns undefined when nothing matches.
+ */
+export function matchField(query: string, value: string): Omit<FieldMatch, "label" | "value"> | undefined {
+  const q = query.toLowerCase();
+  const v = value.toLowerCase();
+  if (!q || !v) return undefined;
+
+  const index = v.indexOf(q);
+  if (index >= 0) {
+    const score = 100 + (index === 0 ? 30 : isBoundary(v, index) ? 15 : 0) + (q.length === v.length ? 20 : 0);
+    return { score, ranges: [[index, index + q.length]] };
+  }
+
+  // Every query character in order, e.g. "pdb" in "prod-db"
+  const ranges: [number, number][] = [];
+  let from = 0;
+  for (const ch of q) {
+    const at = v.indexOf(ch, from);
+    if (at < 0) {
+      ranges.length = 0;
+      break;
+    }
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === at) last[1] = at + 1;
+    else ranges.push([at, at + 1]);
+    from = at + 1;
+  }
+  if (ranges.length > 0) {
+    // Fewer, longer runs read as a better match
+    return { score: 60 - Math.min(ranges.length * 3, 30), ranges };
+  }
+
+  const budget = typoBudget(q.length);
+  if (budget === 0) return undefined;
+  let best: { distance: number; start: number; length: number } | undefined;
+  for (let length = q.length - budget; length <= q.length + budget; length++) {
+    for (let start = 0; start + length <= v.length; start++) {
+      const distance = editDistance(q, v.slice(start, start + length));
+      if (distance <= budget && (!best || distance < best.distance)) best = { distance, start, length };
+    }
+  }
+  if (!best) return undefined;
+  return { score: 40 - best.distance * 10, ranges: [[best.start, best.start + best.length]] };
+}
+
+/**
+ * Best match of `query` across `fields`. Every word of the query has to match some field.
+ * A word like `root@web` is split and both halves have to match, the left one against the
+ * `user` field.
+ */
+export function matchFields(query: string, fields: SearchField[]): FieldMatch | undefined {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  if (words.length > 1) {
+    const matches = words.map((w) => matchFields(w, fields));
+    if (matches.some((m) => !m)) return undefined;
+    const found = matches as FieldMatch[];
+    const best = found.reduce((a, b) => (b.score > a.score ? b : a));
+    return { ...best, score: found.reduce((sum, m) => sum + m.score, 0) };
+  }
+  const trimmed = words[0] ?? "";
+  const at = trimmed.indexOf("@");
+  if (at >= 0) {
+    const userPart = trimmed.slice(0, at);
+    const rest = trimmed.slice(at + 1);
+    const user = fields.find((f) => f.label === "user");
+    const userMatch = userPart ? user && matchField(userPart, user.value) : { score: 0, ranges: [] };
+    if (!user || !userMatch) return undefined;
+    if (!rest) return { label: user.label, value: user.value, ...userMatch };
+    const restMatch = matchFields(
+      rest,
+      fields.filter((f) => f.label !== "user"),
+    );
+    return restMatch && { ...restMatch, score: restMatch.score + userMatch.score };
+  }
+
+  let best: FieldMatch | undefined;
+  for (const field of fields) {
+    const match = matchField(trimmed, field.value);
+    if (match && (!best || match.score > best.score)) best = { label: field.label, value: field.value, ...match };
+  }
+  return best;
+}
+
+/** Marks the matched ranges, with brackets by default or e.g. `**` for markdown. */
+export function highlight(value: string, ranges: [number, number][], open = "[", close = "]"): string {
+  let out = "";
+  let pos = 0;
+  for (const [start, end] of ranges) {
+    out += value.slice(pos, start) + open + value.slice(start, end) + close;
+    pos = end;
+  }
+  return out + value.slice(pos);
+}
@@ -0,0 +1,63 @@
+import { Protocol } from "./types";
+
+/**
+ * Session managers for PuTTY group sessions by a `/` in the name, e.g. `prod/db-01`.
+ * Everything before the last `/` is the folder.
+ */
+export function splitSessionName(name: string): { folder: string; leaf: string } {
+  const i = name.lastIndexOf("/");
+  if (i <= 0 || i === name.length - 1) return { folder: "", leaf: name };
+  return { folder: name.slice(0, i), leaf: name.slice(i + 1) };
+}
+
+export function joinSessionName(folder: string, leaf: string): string {
+  const cleanFolder = folder.trim().replace(/^\/+|\/+$/g, "");
+  return cleanFolder ? `${cleanFolder}/${leaf}` : leaf;
+}
+
+// Value of the search bar dropdown: "all", or a kind and its value like "tag:prod"
+export type SessionFilter =
+  | { kind: "all" }
+  | { kind: "folder"; value: string }
+  | { kind: "tag"; value: string }
+  | { kind: "protocol"; value: Protocol };
+
+export function parseFilter(raw: string): SessionFilter {
+  const i = raw.indexOf(":");
+  if (i < 0) return { kind: "all" };
+  const kind = raw.slice(0, i);
+  const value = raw.slice(i + 1);
+  if (kind === "folder" || kind === "tag") return { kind, value };
+  if (kind === "protocol") return { kind, value: value as Protocol };
+  return { kind: "all" };
+}
+
+export function matchesFilter(
+  session: { name: string; protocol?: Protocol },
+  tags: string[],
+  filter: SessionFilter,
+): boolean {
+  switch (filter.kind) {
+    case "folder": {
+      const { folder } = splitSessionName(session.name);
+      // A folder also shows what is in its subfolders
+      return folder === filter.value || folder.startsWith(`${filter.value}/`);
+    }
+    case "tag":
+      return tags.includes(filter.value);
+    case "protocol":
+      return session.protocol === filter.value;
+    default:
+      return true;
+  }
+}
+
+/** Groups items by folder, keeping their order; sessions without a folder come first. */
+export function groupByFolder<T extends { name: string }>(items: T[]): [string, T[]][] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const { folder } = splitSessionName(item.name);
+    groups.set(folder, [...(groups.get(folder) ?? []), item]);
+  }
+  return Array.from(groups.entries()).sort(([a], [b]) => (a === "" ? -1 : b === "" ? 1 : a.localeCompare(b)));
+}
@@ -0,0 +1,116 @@
+import { LocalStorage } from "@raycast/api";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  clearLaunchHistory,
+  frecency,
+  lastLaunched,
+  loadAdHocHistory,
+  loadFavorites,
+  loadHistory,
+  promoteAdHocTarget,
+  recordAdHocLaunch,
+  recordLaunch,
+  renameFavorite,
+  renameLaunchHistory,
+  setFavorite,
+} from "./history";
+
+const DAY = 24 * 60 * 60 * 1000;
+// A fixed clock, so ages do not depend on when the tests run
+const NOW = Date.UTC(2026, 0, 31, 12);
+
+describe("launch history", () => {
+  beforeEach(async () => {
+    await LocalStorage.clear();
+  });
+
+  it("keeps the newest launches first and counts every launch", async () => {
+    for (let i = 0; i < 12; i++) await recordLaunch("web", NOW - (12 - i) * DAY);
+    const record = (await loadHistory()).web;
+    expect(record.count).toBe(12);
+    expect(record.recent).toHaveLength(10);
+    expect(record.recent[0]).toBe(NOW - DAY);
+    expect(lastLaunched(record)).toBe(NOW - DAY);
+    expect([...record.recent].sort((a, b) => b - a)).toEqual(record.recent);
+  });
+
+  it("clears and renames one session's history", async () => {
+    await recordLaunch("web", NOW);
+    await recordLaunch("db", NOW);
+    await renameLaunchHistory("web", "web-01");
+    expect(Object.keys(await loadHistory()).sort()).toEqual(["db", "web-01"]);
+    expect(await clearLaunchHistory("db")).toEqual({ "web-01": { count: 1, recent: [NOW] } });
+    expect(lastLaunched((await loadHistory()).db)).toBeUndefined();
+  });
+});
+
+describe("frecency", () => {
+  it("is zero without launches", () => {
+    expect(frecency(undefined, NOW)).toBe(0);
+    expect(frecency({ count: 0, recent: [] }, NOW)).toBe(0);
+  });
+
+  it.each([
+    [3, 100],
+    [10, 70],
+    [20, 50],
+    [60, 30],
+    [120, 10],
+  ])("weighs a launch %i days ago as %i", (days, weight) => {
+    expect(frecency({ count: 1, recent: [NOW - days * DAY] }, NOW)).toBe(weight);
+  });
+
+  it("scales the sampled weight up to the total number of launches", () => {
+    expect(frecency({ count: 40, recent: [NOW - DAY, NOW - 20 * DAY] }, NOW)).toBe((40 * (100 + 50)) / 2);
+  });
+
+  it("ranks a session used daily for months above one opened twice yesterday", () => {
+    const daily = { count: 200, recent: Array.from({ length: 10 }, (_, i) => NOW - i * DAY) };
+    const twice = { count: 2, recent: [NOW - DAY, NOW - DAY - 1000] };
+    expect(frecency(daily, NOW)).toBeGreaterThan(frecency(twice, NOW));
+  });
+});
+
+describe("favorites", () => {
+  beforeEach(async () => {
+    await LocalStorage.clear();
+  });
+
+  it("keeps the order sessions were pinned in", async () => {
+    await setFavorite("web", true);
+    await setFavorite("db", true);
+    await setFavorite("web", true);
+    expect(await loadFavorites()).toEqual(["db", "web"]);
+  });
+
+  it("unpins and renames", async () => {
+    await setFavorite("web", true);
+    await setFavorite("db", true);
+    expect(await setFavorite("web", false)).toEqual(["db"]);
+    expect(await renameFavorite("db", "db-01")).toEqual(["db-01"]);
+    expect(await renameFavorite("missing", "other")).toEqual(["db-01"]);
+  });
+});
+
+describe("ad-hoc history", () => {
+  beforeEach(async () => {
+    await LocalStorage.clear();
+  });
+
+  it("keys targets by their short form and keeps the 50 most recent", async () => {
+    for (let i = 0; i < 51; i++) await recordAdHocLaunch({ host: `host-${i}` }, NOW + i);
+    const history = await loadAdHocHistory();
+    expect(Object.keys(history)).toHaveLength(50);
+    expect(history["host-0:22"]).toBeUndefined();
+    expect(history["host-50:22"]).toEqual({ target: { host: "host-50" }, count: 1, recent: [NOW + 50] });
+  });
+
+  it("moves a target's launches to the session it was saved as", async () => {
+    await recordLaunch("web", NOW - 2 * DAY);
+    await recordAdHocLaunch({ host: "web.example.com", user: "root" }, NOW - DAY);
+    await recordAdHocLaunch({ host: "web.example.com", user: "root" }, NOW - 3 * DAY);
+
+    expect(await promoteAdHocTarget("root@web.example.com:22", "web")).toEqual({});
+    expect((await loadHistory()).web).toEqual({ count: 3, recent: [NOW - DAY, NOW - 2 * DAY, NOW - 3 * DAY] });
+  });
+});
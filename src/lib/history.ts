@@ -0,0 +1,165 @@
+import { LocalStorage } from "@raycast/api";
+import { ParsedTarget, formatTarget } from "./targets";
+
+export type LaunchRecord = {
+  count: number;
+  // Most recent launches, newest first, in ms since the epoch
+  recent: number[];
+};
+
+export type LaunchHistory = Record<string, LaunchRecord>;
+
+// Targets opened with Quick Connect without a saved session, keyed by `formatTarget`
+export type AdHocHistory = Record<string, LaunchRecord & { target: ParsedTarget }>;
+
+const HISTORY_KEY = "launch-history";
+const FAVORITES_KEY = "favorite-sessions";
+const AD_HOC_KEY = "ad-hoc-history";
+// Least recently used targets are dropped beyond this
+const MAX_AD_HOC = 50;
+// How many timestamps are kept per session for the frecency score
+const MAX_SAMPLES = 10;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+async function readJson<T>(key: string, fallback: T): Promise<T> {
+  const raw = await LocalStorage.getItem<string>(key);
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export function loadHistory(): Promise<LaunchHistory> {
+  return readJson<LaunchHistory>(HISTORY_KEY, {});
+}
+
+async function saveHistory(history: LaunchHistory) {
+  await LocalStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+}
+
+export async function recordLaunch(name: string, now = Date.now()): Promise<LaunchHistory> {
+  const history = await loadHistory();
+  const record = history[name] ?? { count: 0, recent: [] };
+  history[name] = { count: record.count + 1, recent: [now, ...record.recent].slice(0, MAX_SAMPLES) };
+  await saveHistory(history);
+  return history;
+}
+
+export async function clearLaunchHistory(name: string): Promise<LaunchHistory> {
+  const history = await loadHistory();
+  delete history[name];
+  await saveHistory(history);
+  return history;
+}
+
+export async function renameLaunchHistory(from: string, to: string): Promise<LaunchHistory> {
+  const history = await loadHistory();
+  if (history[from]) {
+    history[to] = history[from];
+    delete history[from];
+    await saveHistory(history);
+  }
+  return history;
+}
+
+/** Puts back a record kept elsewhere, e.g. in the trash when the session was deleted. */
+export async function restoreLaunchHistory(name: string, record: LaunchRecord): Promise<LaunchHistory> {
+  const history = await loadHistory();
+  history[name] = record;
+  await saveHistory(history);
+  return history;
+}
+
+export function loadAdHocHistory(): Promise<AdHocHistory> {
+  return readJson<AdHocHistory>(AD_HOC_KEY, {});
+}
+
+async function saveAdHocHistory(history: AdHocHistory) {
+  await LocalStorage.setItem(AD_HOC_KEY, JSON.stringify(history));
+}
+
+export async function recordAdHocLaunch(target: ParsedTarget, now = Date.now()): Promise<AdHocHistory> {
+  const history = await loadAdHocHistory();
+  const key = formatTarget(target);
+  const record = history[key] ?? { count: 0, recent: [] };
+  history[key] = { target, count: record.count + 1, recent: [now, ...record.recent].slice(0, MAX_SAMPLES) };
+  const kept = Object.entries(history)
+    .sort(([, a], [, b]) => (b.recent[0] ?? 0) - (a.recent[0] ?? 0))
+    .slice(0, MAX_AD_HOC);
+  const next = Object.fromEntries(kept);
+  await saveAdHocHistory(next);
+  return next;
+}
+
+export async function removeAdHocTarget(key: string): Promise<AdHocHistory> {
+  const history = await loadAdHocHistory();
+  delete history[key];
+  await saveAdHocHistory(history);
+  return history;
+}
+
+/**
+ * Once an ad-hoc target is saved as a session, its launches count towards the session's
+ * frecency and it leaves the ad-hoc list.
+ */
+export async function promoteAdHocTarget(key: string, sessionName: string): Promise<AdHocHistory> {
+  const adHoc = await loadAdHocHistory();
+  const promoted = adHoc[key];
+  if (!promoted) return adHoc;
+  const history = await loadHistory();
+  const existing = history[sessionName] ?? { count: 0, recent: [] };
+  history[sessionName] = {
+    count: existing.count + promoted.count,
+    recent: [...existing.recent, ...promoted.recent].sort((a, b) => b - a).slice(0, MAX_SAMPLES),
+  };
+  await saveHistory(history);
+  return removeAdHocTarget(key);
+}
+
+function ageWeight(age: number): number {
+  if (age < 4 * DAY) return 100;
+  if (age < 14 * DAY) return 70;
+  if (age < 31 * DAY) return 50;
+  if (age < 90 * DAY) return 30;
+  return 10;
+}
+
+/**
+ * Firefox-style frecency: recent launches weigh more than old ones, scaled up to the total
+ * number of launches so a session used daily for a year beats one opened twice yesterday.
+ */
+export function frecency(record: LaunchRecord | undefined, now = Date.now()): number {
+  if (!record || record.recent.length === 0) return 0;
+  const sampled = record.recent.reduce((sum, t) => sum + ageWeight(now - t), 0);
+  return (record.count * sampled) / record.recent.length;
+}
+
+export function lastLaunched(record: LaunchRecord | undefined): number | undefined {
+  return record?.recent[0];
+}
+
+export function loadFavorites(): Promise<string[]> {
+  return readJson<string[]>(FAVORITES_KEY, []);
+}
+
+async function saveFavorites(favorites: string[]) {
+  await LocalStorage.setItem(FAVORITES_KEY, JSON.stringify(favorites));
+}
+
+export async function setFavorite(name: string, pinned: boolean): Promise<string[]> {
+  const favorites = (await loadFavorites()).filter((f) => f !== name);
+  if (pinned) favorites.push(name);
+  await saveFavorites(favorites);
+  return favorites;
+}
+
+export async function renameFavorite(from: string, to: string): Promise<string[]> {
+  const favorites = await loadFavorites();
+  if (!favorites.includes(from)) return favorites;
+  const next = favorites.map((f) => (f === from ? to : f));
+  await saveFavorites(next);
+  return next;
+}
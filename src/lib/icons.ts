@@ -0,0 +1,219 @@
+import { Color, Icon, Image, LocalStorage, environment } from "@raycast/api";
+import { mkdir, rm, stat, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { mapWithConcurrency } from "./batch";
+import { Protocol } from "./types";
+
+export type IconName = keyof typeof Icon;
+
+// First matching rule wins, e.g. { pattern: "*.db.*", icon: "HardDrive" }
+export type HostIconRule = {
+  pattern: string;
+  icon: IconName;
+  color?: ColorName;
+};
+
+export type IconSettings = {
+  hostRules: HostIconRule[];
+  // Tag -> color, used for the tag itself and to tint the session icon
+  tagColors: Record<string, ColorName>;
+};
+
+const STORAGE_KEY = "icon-settings";
+
+export const PROTOCOL_ICONS: Record<Protocol, IconName> = {
+  ssh: "Terminal",
+  telnet: "Network",
+  rlogin: "Person",
+  raw: "Code",
+  serial: "Plug",
+};
+
+// Offered in the rule form; any Icon name stored by hand works as well
+export const RULE_ICONS: { title: string; icon: IconName }[] = [
+  { title: "Database", icon: "HardDrive" },
+  { title: "Server", icon: "Desktop" },
+  { title: "Web", icon: "Globe" },
+  { title: "Cloud", icon: "Cloud" },
+  { title: "Network device", icon: "Wifi" },
+  { title: "Firewall", icon: "Shield" },
+  { title: "Bastion", icon: "Lock" },
+  { title: "Container", icon: "Box" },
+  { title: "Build", icon: "Cog" },
+  { title: "Hardware", icon: "ComputerChip" },
+  { title: "Office", icon: "Building" },
+  { title: "Home", icon: "House" },
+  { title: "Terminal", icon: "Terminal" },
+];
+
+export const ICON_COLORS = ["Red", "Orange", "Yellow", "Green", "Blue", "Purple", "Magenta"] as const;
+export type ColorName = (typeof ICON_COLORS)[number];
+
+export async function loadIconSettings(): Promise<IconSettings> {
+  const raw = await LocalStorage.getItem<string>(STORAGE_KEY);
+  const empty: IconSettings = { hostRules: [], tagColors: {} };
+  if (!raw) return empty;
+  try {
+    return { ...empty, ...(JSON.parse(raw) as Partial<IconSettings>) };
+  } catch {
+    return empty;
+  }
+}
+
+async function saveIconSettings(settings: IconSettings) {
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** Adds a rule, or replaces the one at `index` when editing. */
+export async function saveHostRule(rule: HostIconRule, index?: number): Promise<IconSettings> {
+  const settings = await loadIconSettings();
+  const cleaned = { ...rule, pattern: rule.pattern.trim() };
+  if (index === undefined) settings.hostRules.push(cleaned);
+  else settings.hostRules[index] = cleaned;
+  await saveIconSettings(settings);
+  return settings;
+}
+
+export async function deleteHostRule(index: number): Promise<IconSettings> {
+  const settings = await loadIconSettings();
+  settings.hostRules.splice(index, 1);
+  await saveIconSettings(settings);
+  return settings;
+}
+
+/** Moves a rule earlier (-1) or later (+1), since the first matching rule applies. */
+export async function moveHostRule(index: number, by: -1 | 1): Promise<IconSettings> {
+  const settings = await loadIconSettings();
+  const to = index + by;
+  if (to < 0 || to >= settings.hostRules.length) return settings;
+  const [rule] = settings.hostRules.splice(index, 1);
+  settings.hostRules.splice(to, 0, rule);
+  await saveIconSettings(settings);
+  return settings;
+}
+
+export async function setTagColor(tag: string, color: ColorName | undefined): Promise<IconSettings> {
+  const settings = await loadIconSettings();
+  if (color) settings.tagColors[tag] = color;
+  else delete settings.tagColors[tag];
+  await saveIconSettings(settings);
+  return settings;
+}
+
+/** Shell-style match where `*` is any run of characters and `?` one character, ignoring case. */
+export function matchesHostPattern(pattern: string, host: string): boolean {
+  const source = pattern
+    .trim()
+    .split("")
+    .map((c) => (c === "*" ? ".*" : c === "?" ? "." : c.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`, "i").test(host);
+}
+
+export function tagColor(settings: IconSettings, tag: string): Color | undefined {
+  const name = settings.tagColors[tag];
+  return name ? Color[name] : undefined;
+}
+
+/**
+ * Icon for a session, all decided locally: a cached favicon when there is one, then the first
+ * host rule that matches, then the protocol. The first colored tag tints it unless the rule
+ * sets a color of its own.
+ */
+export function sessionIcon(
+  settings: IconSettings,
+  session: { host?: string; protocol?: Protocol },
+  tags: string[],
+  favicon?: string,
+): Image.ImageLike {
+  const tint = tags.map((t) => tagColor(settings, t)).find(Boolean);
+  const rule = session.host
+    ? settings.hostRules.find((r) => r.pattern && matchesHostPattern(r.pattern, session.host!))
+    : undefined;
+  const fallback = Icon[rule?.icon ?? PROTOCOL_ICONS[session.protocol ?? "ssh"]] ?? Icon.Terminal;
+  if (favicon) return { source: favicon, fallback };
+  return { source: fallback, tintColor: rule?.color ? Color[rule.color] : tint };
+}
+
+/** Parses the comma or space separated allow-list from the preferences. */
+export function parseDomainList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(/[\s,;]+/)
+    .map((d) =>
+      d
+        .trim()
+        .toLowerCase()
+        .replace(/^\*?\./, ""),
+    )
+    .filter(Boolean);
+}
+
+/** True for the domain itself and its subdomains; IP addresses never match. */
+export function isFaviconAllowed(host: string, domains: string[]): boolean {
+  const h = host.toLowerCase();
+  if (/^[\d.]+$/.test(h) || h.includes(":")) return false;
+  return domains.some((d) => h === d || h.endsWith(`.${d}`));
+}
+
+const FAVICON_DIR = "favicons";
+const FAVICON_TTL = 30 * 24 * 60 * 60 * 1000;
+// Hosts without a favicon are not asked again for a day
+const MISS_TTL = 24 * 60 * 60 * 1000;
+const MAX_FAVICON_BYTES = 256 * 1024;
+const FETCH_TIMEOUT = 5000;
+
+function faviconPath(host: string): string {
+  return join(environment.supportPath, FAVICON_DIR, `${host.toLowerCase().replace(/[^a-z0-9.-]/g, "_")}.ico`);
+}
+
+async function fetchFavicon(host: string): Promise<Buffer | undefined> {
+  // Asked from the host itself, so no third party learns the name
+  const response = await fetch(`https://${host}/favicon.ico`, {
+    redirect: "follow",
+    signal: AbortSignal.timeout(FETCH_TIMEOUT),
+  });
+  if (!response.ok || !(response.headers.get("content-type") ?? "image/").startsWith("image/")) return undefined;
+  const data = Buffer.from(await response.arrayBuffer());
+  return data.length > 0 && data.length <= MAX_FAVICON_BYTES ? data : undefined;
+}
+
+/**
+ * Path of the favicon on disk, fetched first when missing or stale. A failed fetch leaves an
+ * empty file behind so it is not tried again on every load.
+ */
+export async function cachedFavicon(host: string, now = Date.now()): Promise<string | undefined> {
+  const path = faviconPath(host);
+  try {
+    const { size, mtimeMs } = await stat(path);
+    if (now - mtimeMs < (size > 0 ? FAVICON_TTL : MISS_TTL)) return size > 0 ? path : undefined;
+  } catch {
+    // Not cached yet
+  }
+  const data = await fetchFavicon(host).catch(() => undefined);
+  try {
+    await mkdir(join(environment.supportPath, FAVICON_DIR), { recursive: true });
+    await writeFile(path, data ?? Buffer.alloc(0));
+  } catch {
+    // Raycast shows icons from files only
+    return undefined;
+  }
+  return data ? path : undefined;
+}
+
+/** Favicons for the allow-listed hosts, reported one by one as they resolve. */
+export async function loadFavicons(
+  hosts: string[],
+  domains: string[],
+  onFavicon: (host: string, path: string) => void,
+): Promise<void> {
+  const allowed = Array.from(new Set(hosts.filter((h) => isFaviconAllowed(h, domains))));
+  await mapWithConcurrency(allowed, 4, async (host) => {
+    const path = await cachedFavicon(host);
+    if (path) onFavicon(host, path);
+  });
+}
+
+/** Removes every cached favicon, e.g. after narrowing the allow-list. */
+export async function clearFaviconCache() {
+  await rm(join(environment.supportPath, FAVICON_DIR), { recursive: true, force: true });
+}
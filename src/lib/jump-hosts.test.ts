@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { findJumpCycle, jumpCycleError, jumpProxyValues, jumpSessionPort, readJump } from "./jump-hosts";
+import { DEFAULT_SESSION_VALUES } from "./session-schema";
+import { createMemorySessionStore } from "./session-store";
+import { SessionValues } from "./types";
+
+const session = (values: Partial<SessionValues>): SessionValues => ({
+  ...DEFAULT_SESSION_VALUES,
+  extra: [],
+  ...values,
+});
+
+describe("jumpProxyValues", () => {
+  it("names the jump session as an SSH proxy with its port", () => {
+    expect(jumpProxyValues({ session: "bastion", via: "ssh", port: 2200 }, "plink")).toEqual({
+      ProxyMethod: "ssh",
+      ProxyHost: "bastion",
+      ProxyPort: 2200,
+      ProxyUsername: "",
+    });
+  });
+
+  it("falls back to port 22 instead of the proxy default of 80", () => {
+    expect(jumpProxyValues({ session: "bastion", via: "ssh" }, "plink").ProxyPort).toBe(22);
+  });
+
+  it("builds a plink -nc proxy command", () => {
+    expect(jumpProxyValues({ session: "my bastion", via: "plink" }, "C:\\PuTTY\\plink.exe")).toEqual({
+      ProxyMethod: "cmd",
+      ProxyTelnetCommand: '"C:\\PuTTY\\plink.exe" -load "my bastion" -nc %host:%port',
+    });
+  });
+
+  it("writes what readJump reads back", () => {
+    for (const via of ["ssh", "plink"] as const) {
+      const values = { ...DEFAULT_SESSION_VALUES, ...jumpProxyValues({ session: "my bastion", via }, "plink") };
+      expect(readJump(values, ["my bastion"])).toEqual({ session: "my bastion", via });
+    }
+  });
+});
+
+describe("readJump", () => {
+  const names = ["bastion", "web"];
+
+  it("ignores an SSH proxy host that is not a saved session", () => {
+    expect(readJump(session({ ProxyMethod: "ssh", ProxyHost: "gw.example.com" }), names)).toBeUndefined();
+  });
+
+  it("reads unquoted plink sessions and ignores other commands", () => {
+    expect(
+      readJump(session({ ProxyMethod: "cmd", ProxyTelnetCommand: "plink -load bastion -nc %host:%port" }), names),
+    ).toEqual({ session: "bastion", via: "plink" });
+    expect(
+      readJump(session({ ProxyMethod: "cmd", ProxyTelnetCommand: "connect %host %port\\n" }), names),
+    ).toBeUndefined();
+  });
+
+  it("ignores proxies that are not a jump host", () => {
+    expect(readJump(session({ ProxyMethod: "socks5", ProxyHost: "bastion" }), names)).toBeUndefined();
+    expect(readJump(session({ ProxyMethod: "none", ProxyHost: "bastion" }), names)).toBeUndefined();
+  });
+});
+
+describe("findJumpCycle", () => {
+  const chain: Record<string, string> = { a: "b", b: "c", c: "d", x: "y", y: "x" };
+  const jumpOf = async (s: string) => chain[s];
+
+  it.each([
+    ["d", "a", ["d", "a", "b", "c", "d"]],
+    ["a", "a", ["a", "a"]],
+    ["a", "b", undefined],
+    ["new", "x", ["new", "x", "y", "x"]],
+  ])("walks %s → %s", async (name, jump, cycle) => {
+    expect(await findJumpCycle(name, jump, jumpOf)).toEqual(cycle);
+  });
+});
+
+describe("jumpCycleError", () => {
+  const store = createMemorySessionStore({
+    web: session({ ProxyMethod: "ssh", ProxyHost: "bastion" }),
+    bastion: session({ ProxyMethod: "cmd", ProxyTelnetCommand: 'plink -load "edge" -nc %host:%port' }),
+    edge: session({ HostName: "edge.example.com", PortNumber: 2200 }),
+  });
+
+  it("reports a loop through saved sessions", async () => {
+    expect(await jumpCycleError(store, "edge", "web")).toBe("Jump hosts loop: edge → web → bastion → edge");
+  });
+
+  it("accepts a chain that ends", async () => {
+    expect(await jumpCycleError(store, "new", "web")).toBeUndefined();
+    expect(await jumpCycleError(store, "web", "missing")).toBeUndefined();
+  });
+
+  it("reads the jump session's port", async () => {
+    expect(await jumpSessionPort(store, "edge")).toBe(2200);
+    expect(await jumpSessionPort(store, undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,104 @@
+import { SessionStore } from "./session-store";
+import { KnownSessionValues } from "./types";
+
+/**
+ * How a session reaches its jump host:
+ * - "ssh": PuTTY's own SSH proxy, which takes a saved session name as the proxy host (0.77 and later)
+ * - "plink": a local proxy command, `plink -load <jump> -nc %host:%port`, which older versions understand too
+ */
+export type JumpVia = "ssh" | "plink";
+
+export type Jump = {
+  session: string;
+  via: JumpVia;
+  // The jump session's own port, which PuTTY's SSH proxy is given as the proxy port; 22 when unknown
+  port?: number;
+};
+
+type ProxyValues = Pick<
+  KnownSessionValues,
+  "ProxyMethod" | "ProxyHost" | "ProxyPort" | "ProxyUsername" | "ProxyTelnetCommand"
+>;
+
+const PLINK_NC = /-load\s+(?:"([^"]+)"|(\S+))\s+-nc\s/i;
+
+/** The saved session a session jumps through, if its proxy settings point at one. */
+export function readJump(values: ProxyValues, sessionNames: string[]): Jump | undefined {
+  if (values.ProxyMethod === "ssh" && sessionNames.includes(values.ProxyHost)) {
+    return { session: values.ProxyHost, via: "ssh" };
+  }
+  if (values.ProxyMethod === "cmd") {
+    const match = PLINK_NC.exec(values.ProxyTelnetCommand);
+    const session = match?.[1] ?? match?.[2];
+    if (session) return { session, via: "plink" };
+  }
+  return undefined;
+}
+
+/** The proxy values that make a session jump through another saved session. */
+export function jumpProxyValues(jump: Jump, plinkPath: string): Partial<ProxyValues> {
+  if (jump.via === "ssh") {
+    // PuTTY takes the user from the saved session named as the host
+    return { ProxyMethod: "ssh", ProxyHost: jump.session, ProxyPort: jump.port || 22, ProxyUsername: "" };
+  }
+  return { ProxyMethod: "cmd", ProxyTelnetCommand: `"${plinkPath}" -load "${jump.session}" -nc %host:%port` };
+}
+
+/** The port of the saved session a form jumps through, for `jumpProxyValues`. */
+export async function jumpSessionPort(store: SessionStore, session: string | undefined): Promise<number | undefined> {
+  if (!session) return undefined;
+  return (await store.read(session)).PortNumber;
+}
+
+// Where a jump host really is, as OpenSSH's -J needs it
+export type JumpHost = Pick<KnownSessionValues, "HostName" | "PortNumber" | "UserName">;
+
+/**
+ * The host a session jumps through. A saved session named by the proxy settings is read for
+ * its host, port and user; any other SSH proxy host is used as is with the proxy port, like
+ * PuTTY does. Undefined without an SSH jump, or when the saved session is gone or has no host.
+ */
+export async function resolveJumpHost(store: SessionStore, values: ProxyValues): Promise<JumpHost | undefined> {
+  const names = (await store.list()).map((s) => s.name);
+  const jump = readJump(values, names);
+  if (jump) {
+    if (!names.includes(jump.session)) return undefined;
+    const { HostName, PortNumber, UserName } = await store.read(jump.session);
+    return HostName ? { HostName, PortNumber, UserName } : undefined;
+  }
+  if (values.ProxyMethod === "ssh" && values.ProxyHost) {
+    return { HostName: values.ProxyHost, PortNumber: values.ProxyPort, UserName: values.ProxyUsername };
+  }
+  return undefined;
+}
+
+/**
+ * The cycle `name` would be part of when it jumps through `jump`, e.g. ["web", "bastion", "web"],
+ * or undefined when the chain ends. `jumpOf` looks up the next hop of a saved session.
+ */
+export async function findJumpCycle(
+  name: string,
+  jump: string,
+  jumpOf: (session: string) => Promise<string | undefined>,
+): Promise<string[] | undefined> {
+  const chain = [name];
+  let next: string | undefined = jump;
+  while (next) {
+    chain.push(next);
+    if (next === name) return chain;
+    // A loop further down the chain that does not come back to `name`
+    if (chain.indexOf(next) < chain.length - 1) return chain;
+    next = await jumpOf(next);
+  }
+  return undefined;
+}
+
+/** Error message when jumping from `name` through `jump` would loop, read from the store. */
+export async function jumpCycleError(store: SessionStore, name: string, jump: string): Promise<string | undefined> {
+  const names = (await store.list()).map((s) => s.name);
+  const cycle = await findJumpCycle(name, jump, async (session) => {
+    if (!names.includes(session)) return undefined;
+    return readJump(await store.read(session), names)?.session;
+  });
+  return cycle ? `Jump hosts loop: ${cycle.join(" → ")}` : undefined;
+}
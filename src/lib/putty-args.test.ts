@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import { LaunchOptions, buildPuttyArgs, parseForwards, serialConfig } from "./putty-args";
+
+const serial = {
+  SerialLine: "COM3",
+  SerialSpeed: 115200,
+  SerialDataBits: 8,
+  SerialStopHalfbits: 3,
+  SerialParity: "even",
+  SerialFlowControl: "rtscts",
+} as const;
+
+describe("buildPuttyArgs", () => {
+  it.each<[string, LaunchOptions, string[]]>([
+    ["nothing", {}, []],
+    ["a saved session", { load: "web" }, ["-load", "web"]],
+    ["host only", { host: "web.example.com" }, ["web.example.com"]],
+    [
+      "ssh with port and user",
+      { protocol: "ssh", host: "web", port: 2222, user: "root" },
+      ["-ssh", "-P", "2222", "-l", "root", "web"],
+    ],
+    ["telnet", { protocol: "telnet", host: "switch", port: 23 }, ["-telnet", "-P", "23", "switch"]],
+    ["rlogin", { protocol: "rlogin", host: "old" }, ["-rlogin", "old"]],
+    ["raw", { protocol: "raw", host: "10.0.0.5", port: 7 }, ["-raw", "-P", "7", "10.0.0.5"]],
+    ["a key file", { host: "web", keyFile: "C:\\keys\\id.ppk" }, ["-i", "C:\\keys\\id.ppk", "web"]],
+    [
+      "forwards in order",
+      {
+        host: "web",
+        forwards: [
+          { kind: "L", spec: "8080:localhost:80" },
+          { kind: "R", spec: "2222:localhost:22" },
+          { kind: "D", spec: "1080" },
+        ],
+      },
+      ["-L", "8080:localhost:80", "-R", "2222:localhost:22", "-D", "1080", "web"],
+    ],
+    ["X11 and agent on", { host: "web", x11: true, agentForwarding: true }, ["-X", "-A", "web"]],
+    ["X11 and agent off", { host: "web", x11: false, agentForwarding: false }, ["-x", "-a", "web"]],
+    ["compression", { host: "web", compression: true }, ["-C", "web"]],
+    ["compression left alone", { host: "web", compression: false }, ["web"]],
+    ["IPv6", { host: "web", ipVersion: 6 }, ["-6", "web"]],
+    [
+      "overrides on a saved session",
+      { load: "web", user: "deploy", port: 22 },
+      ["-load", "web", "-P", "22", "-l", "deploy"],
+    ],
+    [
+      "serial, ignoring the port",
+      { protocol: "serial", port: 22, serial },
+      ["-serial", "-sercfg", "115200,8,e,1.5,R", "COM3"],
+    ],
+    ["serial without settings", { protocol: "serial", host: "COM1" }, ["-serial", "COM1"]],
+  ])("maps %s", (_, options, args) => {
+    expect(buildPuttyArgs(options)).toEqual({ args, warnings: [] });
+  });
+
+  it("warns about a password on the command line", () => {
+    const { args, warnings } = buildPuttyArgs({ protocol: "ssh", host: "web", password: 'p"w d' });
+    expect(args).toEqual(["-ssh", "-pw", 'p"w d', "web"]);
+    expect(warnings).toEqual([
+      "The password is passed on the command line, where other programs on this PC can read it",
+    ]);
+  });
+
+  it("warns about SSH options on other protocols but still passes them", () => {
+    const { args, warnings } = buildPuttyArgs({
+      protocol: "telnet",
+      host: "switch",
+      keyFile: "id.ppk",
+      forwards: [{ kind: "D", spec: "1080" }],
+      x11: true,
+      agentForwarding: false,
+      compression: true,
+      serial,
+    });
+    expect(args).toEqual(["-telnet", "-i", "id.ppk", "-D", "1080", "-X", "-a", "-C", "switch"]);
+    expect(warnings).toEqual([
+      "A private key only applies to SSH",
+      "Port forwarding only applies to SSH",
+      "X11 forwarding only applies to SSH",
+      "Compression only applies to SSH",
+      "Serial settings only apply to serial connections",
+    ]);
+  });
+});
+
+describe("serialConfig", () => {
+  it("spells out every setting", () => {
+    expect(serialConfig({ ...serial, SerialStopHalfbits: 2, SerialParity: "none", SerialFlowControl: "xonxoff" })).toBe(
+      "115200,8,n,1,X",
+    );
+  });
+});
+
+describe("parseForwards", () => {
+  it.each([
+    ["", []],
+    ["L8080:localhost:80", [{ kind: "L", spec: "8080:localhost:80" }]],
+    ["-R 2222:localhost:22", [{ kind: "R", spec: "2222:localhost:22" }]],
+    ["d1080", [{ kind: "D", spec: "1080" }]],
+    ["D127.0.0.1:1080", [{ kind: "D", spec: "127.0.0.1:1080" }]],
+    ["L127.0.0.1:8080:db:5432", [{ kind: "L", spec: "127.0.0.1:8080:db:5432" }]],
+    ["L8080:[::1]:80", [{ kind: "L", spec: "8080:[::1]:80" }]],
+    [
+      "L8080:localhost:80, D1080\n\n  -R9000:localhost:9000  ",
+      [
+        { kind: "L", spec: "8080:localhost:80" },
+        { kind: "D", spec: "1080" },
+        { kind: "R", spec: "9000:localhost:9000" },
+      ],
+    ],
+  ])("reads %j", (text, forwards) => {
+    expect(parseForwards(text)).toEqual(forwards);
+  });
+
+  it.each([
+    ["8080:localhost:80", 'Cannot read forward "8080:localhost:80"'],
+    ["X8080:localhost:80", 'Cannot read forward "X8080:localhost:80"'],
+    ["L 8080 localhost 80", 'Cannot read forward "L 8080 localhost 80"'],
+    ["L8080", 'Expected L<port>:<host>:<port>, got "L8080"'],
+    ["L8080:localhost", 'Expected L<port>:<host>:<port>, got "L8080:localhost"'],
+    ["Rabc:localhost:22", 'Expected R<port>:<host>:<port>, got "Rabc:localhost:22"'],
+    ["L8080:localhost:http", 'Expected L<port>:<host>:<port>, got "L8080:localhost:http"'],
+    ["Dsocks", 'Expected D<port>, got "Dsocks"'],
+    ["D1080:localhost:80", 'Expected D<port>, got "D1080:localhost:80"'],
+  ])("rejects %j", (text, message) => {
+    expect(() => parseForwards(text)).toThrow(message);
+  });
+
+  it("stops at the first malformed forward", () => {
+    expect(() => parseForwards("L8080:localhost:80, nonsense, D1080")).toThrow('Cannot read forward "nonsense"');
+  });
+});
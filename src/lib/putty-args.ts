@@ -0,0 +1,140 @@
+import { KnownSessionValues, Protocol } from "./types";
+
+export type Forward = {
+  // Local, remote or dynamic (SOCKS)
+  kind: "L" | "R" | "D";
+  // As PuTTY takes it after the flag: "8080:localhost:80", or just a port for D
+  spec: string;
+};
+
+export type SerialSettings = Pick<
+  KnownSessionValues,
+  "SerialLine" | "SerialSpeed" | "SerialDataBits" | "SerialStopHalfbits" | "SerialParity" | "SerialFlowControl"
+>;
+
+/**
+ * A PuTTY launch. Anything left undefined is not passed, so with `load` it keeps the
+ * saved session's setting and without it PuTTY's default.
+ */
+export type LaunchOptions = {
+  // Saved session to start from; every other option overrides it
+  load?: string;
+  protocol?: Protocol;
+  host?: string;
+  port?: number;
+  user?: string;
+  keyFile?: string;
+  password?: string;
+  forwards?: Forward[];
+  // true / false map to PuTTY's -X / -x, -A / -a
+  x11?: boolean;
+  agentForwarding?: boolean;
+  // PuTTY can only switch compression on from the command line
+  compression?: boolean;
+  ipVersion?: 4 | 6;
+  serial?: SerialSettings;
+};
+
+export type PuttyCommand = {
+  args: string[];
+  // Options that were passed but are insecure or have no effect
+  warnings: string[];
+};
+
+const PROTOCOL_FLAGS: Record<Protocol, string> = {
+  raw: "-raw",
+  telnet: "-telnet",
+  rlogin: "-rlogin",
+  ssh: "-ssh",
+  serial: "-serial",
+};
+
+const PARITY_CODES = { none: "n", odd: "o", even: "e", mark: "m", space: "s" } as const;
+const FLOW_CODES = { none: "N", xonxoff: "X", rtscts: "R", dsrdtr: "D" } as const;
+
+/** The `-sercfg` value, e.g. "9600,8,n,1,X". */
+export function serialConfig(serial: SerialSettings): string {
+  const stopBits = serial.SerialStopHalfbits / 2;
+  return [
+    serial.SerialSpeed,
+    serial.SerialDataBits,
+    PARITY_CODES[serial.SerialParity],
+    stopBits,
+    FLOW_CODES[serial.SerialFlowControl],
+  ].join(",");
+}
+
+/**
+ * Reads forwards written one per line or comma separated, in PuTTY's command-line form
+ * with or without the dash: `L8080:localhost:80`, `-R 2222:localhost:22`, `D1080`.
+ * Throws on the first one it cannot read.
+ */
+export function parseForwards(text: string): Forward[] {
+  const forwards: Forward[] = [];
+  for (const raw of text.split(/[\n,]/)) {
+    const item = raw.trim();
+    if (!item) continue;
+    const match = /^-?([LRD])\s*(\S+)$/i.exec(item);
+    if (!match) throw new Error(`Cannot read forward "${item}"`);
+    const kind = match[1].toUpperCase() as Forward["kind"];
+    const spec = match[2];
+    const valid = kind === "D" ? /^([^:]+:)?\d+$/.test(spec) : /^([^:]+:)?\d+:(\[[^\]]+\]|[^:]+):\d+$/.test(spec);
+    if (!valid) {
+      throw new Error(
+        kind === "D" ? `Expected D<port>, got "${item}"` : `Expected ${kind}<port>:<host>:<port>, got "${item}"`,
+      );
+    }
+    forwards.push({ kind, spec });
+  }
+  return forwards;
+}
+
+/** The putty.exe command line for a launch. Pure, so it can be checked without PuTTY. */
+export function buildPuttyArgs(options: LaunchOptions): PuttyCommand {
+  const args: string[] = [];
+  const warnings: string[] = [];
+  const serial = options.protocol === "serial";
+  const sshOnly = (what: string) => {
+    if (options.protocol && options.protocol !== "ssh") warnings.push(`${what} only applies to SSH`);
+  };
+
+  if (options.load) args.push("-load", options.load);
+  if (options.protocol) args.push(PROTOCOL_FLAGS[options.protocol]);
+  if (options.port !== undefined && !serial) args.push("-P", String(options.port));
+  if (options.user) args.push("-l", options.user);
+  if (options.password) {
+    sshOnly("A password");
+    warnings.push("The password is passed on the command line, where other programs on this PC can read it");
+    args.push("-pw", options.password);
+  }
+  if (options.keyFile) {
+    sshOnly("A private key");
+    args.push("-i", options.keyFile);
+  }
+  if (options.forwards?.length) {
+    sshOnly("Port forwarding");
+    for (const f of options.forwards) args.push(`-${f.kind}`, f.spec);
+  }
+  if (options.x11 !== undefined) {
+    if (options.x11) sshOnly("X11 forwarding");
+    args.push(options.x11 ? "-X" : "-x");
+  }
+  if (options.agentForwarding !== undefined) {
+    if (options.agentForwarding) sshOnly("Agent forwarding");
+    args.push(options.agentForwarding ? "-A" : "-a");
+  }
+  if (options.compression) {
+    sshOnly("Compression");
+    args.push("-C");
+  }
+  if (options.ipVersion) args.push(`-${options.ipVersion}`);
+  if (options.serial) {
+    if (serial) args.push("-sercfg", serialConfig(options.serial));
+    else warnings.push("Serial settings only apply to serial connections");
+  }
+
+  // With -serial the "host" is the serial line
+  const target = serial ? options.serial?.SerialLine || options.host : options.host;
+  if (target) args.push(target);
+  return { args, warnings };
+}
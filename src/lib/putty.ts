@@ -0,0 +1,50 @@
+import { Toast, closeMainWindow, popToRoot, showToast } from "@raycast/api";
+import { execFile } from "node:child_process";
+import { access } from "node:fs/promises";
+import { constants as fsConstants } from "node:fs";
+
+export async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path, fsConstants.X_OK);
+    return true;
+  } catch {
+    try {
+      // On Windows, X_OK may not be enforced. Check for readability instead.
+      await access(path, fsConstants.R_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Starts PuTTY with the given arguments. Resolves to false (after telling the user)
+ * when the executable is missing; launch errors are reported asynchronously.
+ */
+export async function launchPutty(puttyPath: string, args: string[]): Promise<boolean> {
+  if (!(await fileExists(puttyPath))) {
+    await showToast({ style: Toast.Style.Failure, title: "PuTTY path not found", message: puttyPath });
+    return false;
+  }
+  execFile(puttyPath, args, (error) => {
+    if (error) {
+      showToast({ style: Toast.Style.Failure, title: "Failed to launch PuTTY", message: error.message });
+    }
+  });
+  return true;
+}
+
+/** Clears the navigation stack and hides Raycast once a session is on its way. */
+export async function dismissAfterLaunch() {
+  try {
+    await popToRoot({ clearSearchBar: true });
+  } catch {
+    // Not fatal, the window may already be gone
+  }
+  try {
+    await closeMainWindow({ clearRootSearch: true });
+  } catch {
+    // Same as above
+  }
+}
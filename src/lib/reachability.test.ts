@@ -0,0 +1,56 @@
+import { AddressInfo, Server, Socket, createConnection, createServer } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { probe } from "./reachability";
+
+vi.mock("node:net", async (importOriginal) => {
+  const net = await importOriginal<typeof import("node:net")>();
+  return { ...net, createConnection: vi.fn(net.createConnection) };
+});
+
+const servers: Server[] = [];
+
+async function listen(onConnection: (socket: Socket) => void): Promise<number> {
+  const server = createServer(onConnection);
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return (server.address() as AddressInfo).port;
+}
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((s) => new Promise((resolve) => s.close(resolve))));
+});
+
+describe("probe", () => {
+  it("reports an open port with its latency and banner", async () => {
+    const port = await listen((socket) => socket.end("SSH-2.0-OpenSSH_9.6\r\n"));
+    const result = await probe({ host: "127.0.0.1", port, banner: true });
+    expect(result).toMatchObject({ status: "up", banner: "SSH-2.0-OpenSSH_9.6" });
+    expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("stops waiting for a banner that never comes", async () => {
+    const port = await listen(() => undefined);
+    const result = await probe({ host: "127.0.0.1", port, banner: true }, { bannerTimeoutMs: 50 });
+    expect(result.status).toBe("up");
+    expect(result.banner).toBeUndefined();
+  });
+
+  it("reports a closed port as refused", async () => {
+    const port = await listen(() => undefined);
+    await new Promise((resolve) => servers.pop()!.close(resolve));
+    expect(await probe({ host: "127.0.0.1", port })).toMatchObject({ status: "refused", error: "ECONNREFUSED" });
+  });
+
+  it("gives up on a handshake that does not finish", async () => {
+    // A socket that never connects stands in for a host that drops the SYN
+    vi.mocked(createConnection).mockImplementationOnce(() => new Socket());
+    expect(await probe({ host: "192.0.2.1", port: 22 }, { timeoutMs: 50 })).toMatchObject({ status: "timeout" });
+  });
+
+  it("resolves ports the OS cannot use instead of throwing", async () => {
+    expect(await probe({ host: "127.0.0.1", port: 70000 })).toMatchObject({
+      status: "error",
+      error: "ERR_SOCKET_BAD_PORT",
+    });
+  });
+});
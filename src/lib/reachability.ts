@@ -0,0 +1,161 @@
+import { LocalStorage } from "@raycast/api";
+import { Socket, createConnection } from "node:net";
+import { mapWithConcurrency } from "./batch";
+
+export type ProbeTarget = {
+  host: string;
+  port: number;
+  // Wait briefly for the server's greeting after connecting, e.g. "SSH-2.0-OpenSSH_9.6"
+  banner?: boolean;
+};
+
+export type ProbeResult = {
+  status: "up" | "refused" | "timeout" | "error";
+  // Time to complete the TCP handshake
+  latencyMs?: number;
+  banner?: string;
+  error?: string;
+  checkedAt: number;
+};
+
+export type ProbeOptions = {
+  timeoutMs?: number;
+  bannerTimeoutMs?: number;
+};
+
+const CACHE_KEY = "reachability-cache";
+// Results younger than this are shown without probing again
+const CACHE_TTL = 2 * 60 * 1000;
+const MAX_BANNER = 512;
+
+export function targetKey(target: ProbeTarget): string {
+  return `${target.host}:${target.port}`;
+}
+
+/**
+ * Telnet servers open with option negotiation (IAC sequences) before any text, so those
+ * are dropped; what remains is cut to its first non-empty printable line.
+ */
+export function parseBanner(data: Buffer): string | undefined {
+  const bytes: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    const byte = data[i];
+    if (byte !== 0xff) {
+      bytes.push(byte);
+      continue;
+    }
+    const command = data[i + 1];
+    if (command === 0xff) {
+      // Escaped 0xFF data byte
+      i++;
+    } else if (command === 0xfa) {
+      // Subnegotiation runs until IAC SE
+      while (i < data.length && !(data[i] === 0xff && data[i + 1] === 0xf0)) i++;
+      i++;
+    } else if (command >= 0xfb && command <= 0xfe) {
+      // WILL / WONT / DO / DONT take an option byte
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+  const text = Buffer.from(bytes)
+    .toString("latin1")
+    .split(/\r?\n/)
+    .map((line) => line.replace(/[^\x20-\x7e]/g, "").trim())
+    .find(Boolean);
+  return text ? text.slice(0, 120) : undefined;
+}
+
+/** Opens a TCP connection to the target and closes it again. Never rejects. */
+export function probe(target: ProbeTarget, options: ProbeOptions = {}): Promise<ProbeResult> {
+  const { timeoutMs = 3000, bannerTimeoutMs = 1500 } = options;
+  return new Promise((resolve) => {
+    const start = Date.now();
+    const chunks: Buffer[] = [];
+    let latencyMs: number | undefined;
+    let done = false;
+    let socket: Socket;
+    try {
+      socket = createConnection({ host: target.host, port: target.port });
+    } catch (e) {
+      // Ports outside 0-65535 (a DWORD can hold more) throw here instead of emitting "error"
+      const error = e as NodeJS.ErrnoException;
+      resolve({ status: "error", error: error.code ?? error.message, checkedAt: Date.now() });
+      return;
+    }
+
+    const finish = (result: Omit<ProbeResult, "checkedAt">) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      socket.destroy();
+      resolve({ ...result, checkedAt: Date.now() });
+    };
+    const up = () => finish({ status: "up", latencyMs, banner: parseBanner(Buffer.concat(chunks)) });
+
+    let timer = setTimeout(() => finish({ status: "timeout" }), timeoutMs);
+    socket.once("connect", () => {
+      latencyMs = Date.now() - start;
+      if (!target.banner) {
+        up();
+        return;
+      }
+      clearTimeout(timer);
+      timer = setTimeout(up, bannerTimeoutMs);
+    });
+    socket.on("data", (chunk: Buffer) => {
+      chunks.push(chunk);
+      const size = chunks.reduce((n, c) => n + c.length, 0);
+      if (size >= MAX_BANNER || parseBanner(Buffer.concat(chunks)) !== undefined) up();
+    });
+    // A server that closes right after accepting is still reachable
+    socket.once("close", () => {
+      if (latencyMs !== undefined) up();
+    });
+    socket.once("error", (e: NodeJS.ErrnoException) => {
+      if (latencyMs !== undefined) up();
+      else finish({ status: e.code === "ECONNREFUSED" ? "refused" : "error", error: e.code ?? e.message });
+    });
+  });
+}
+
+async function loadCache(): Promise<Record<string, ProbeResult>> {
+  const raw = await LocalStorage.getItem<string>(CACHE_KEY);
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as Record<string, ProbeResult>;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Probes every distinct target, reporting each result as it arrives. Cached results that
+ * are still fresh are reported without probing unless `force` is set.
+ */
+export async function probeAll(
+  targets: ProbeTarget[],
+  onResult: (key: string, result: ProbeResult) => void,
+  options: ProbeOptions & { concurrency?: number; force?: boolean; now?: number } = {},
+): Promise<void> {
+  const { concurrency = 8, force = false, now = Date.now() } = options;
+  const cache = await loadCache();
+  const pending = new Map<string, ProbeTarget>();
+  for (const target of targets) {
+    const key = targetKey(target);
+    const cached = cache[key];
+    if (!force && cached && now - cached.checkedAt < CACHE_TTL) onResult(key, cached);
+    else pending.set(key, { ...target, banner: pending.get(key)?.banner || target.banner });
+  }
+  await mapWithConcurrency([...pending], concurrency, async ([key, target]) => {
+    const result = await probe(target, options);
+    cache[key] = result;
+    onResult(key, result);
+  });
+  // Drop entries nobody has looked at for a day so the cache does not grow forever
+  for (const [key, result] of Object.entries(cache)) {
+    if (now - result.checkedAt > 24 * 60 * 60 * 1000) delete cache[key];
+  }
+  await LocalStorage.setItem(CACHE_KEY, JSON.stringify(cache));
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { encodeRegFile, parseRegFile, parseValues, toRegFile } from "./registry";
+import { SESSIONS_KEY, encodeSessionKey } from "./session-store";
+
+describe("toRegFile", () => {
+  const key = `${SESSIONS_KEY}\\${encodeSessionKey(' odd\\name*?%"é ')}`;
+
+  it("escapes key names, quotes and backslashes", () => {
+    const text = toRegFile([
+      {
+        key,
+        values: [
+          { name: "HostName", type: "REG_SZ", data: 'say "hi" from C:\\tmp\\' },
+          { name: 'Odd "Name"', type: "REG_SZ", data: "" },
+          { name: "PortNumber", type: "REG_DWORD", data: "22" },
+          { name: "RemoteCommand", type: "REG_SZ", data: "a\nb" },
+        ],
+      },
+    ]);
+    expect(text).toBe(
+      [
+        "Windows Registry Editor Version 5.00",
+        "",
+        '[HKEY_CURRENT_USER\\Software\\SimonTatham\\PuTTY\\Sessions\\%20odd%5Cname%2A%3F%25"%C3%A9%20]',
+        '"HostName"="say \\"hi\\" from C:\\\\tmp\\\\"',
+        '"Odd \\"Name\\""=""',
+        '"PortNumber"=dword:00000016',
+        '"RemoteCommand"=hex(1):61,00,0a,00,62,00,00,00',
+        "",
+        "",
+      ].join("\r\n"),
+    );
+  });
+
+  it("reads back what it writes", () => {
+    const keys = [
+      {
+        key,
+        values: [
+          { name: "HostName", type: "REG_SZ" as const, data: 'quote " and \\ backslash' },
+          { name: "RemoteCommand", type: "REG_SZ" as const, data: "line 1\r\nline 2" },
+          { name: "PortNumber", type: "REG_DWORD" as const, data: "4294967295" },
+        ],
+      },
+    ];
+    const bytes = encodeRegFile(toRegFile(keys));
+    expect([...bytes.subarray(0, 2)]).toEqual([0xff, 0xfe]);
+    expect(parseRegFile(bytes.subarray(2).toString("utf16le"))).toEqual(keys);
+  });
+
+  it("rejects DWORDs the registry cannot hold", () => {
+    for (const data of ["-1", "4294967296", "1.5", "x"]) {
+      expect(() => toRegFile([{ key, values: [{ name: "PortNumber", type: "REG_DWORD", data }] }])).toThrow(
+        `Invalid REG_DWORD data for PortNumber: ${data}`,
+      );
+    }
+  });
+});
+
+describe("parseValues", () => {
+  it("reads reg query output, quotes and spaces included", () => {
+    const stdout = [
+      "",
+      "HKEY_CURRENT_USER\\Software\\SimonTatham\\PuTTY\\Sessions\\web",
+      '    HostName    REG_SZ    say "hi"  ',
+      "    PortNumber    REG_DWORD    0x16",
+      "    UserName    REG_SZ",
+      "",
+    ].join("\r\n");
+    expect(parseValues(stdout)).toEqual([
+      { name: "HostName", type: "REG_SZ", data: 'say "hi"  ' },
+      { name: "PortNumber", type: "REG_DWORD", data: "22" },
+      { name: "UserName", type: "REG_SZ", data: "" },
+    ]);
+  });
+});
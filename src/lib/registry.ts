@@ -0,0 +1,197 @@
+import { execFile } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+export type RegistryValueType = "REG_SZ" | "REG_DWORD";
+
+export type RegistryValue = {
+  name: string;
+  type: RegistryValueType;
+  data: string;
+};
+
+/**
+ * Runs reg.exe with an argument array. No shell is involved, so quotes, `%`, `&` or `^`
+ * in session names and values reach the registry verbatim instead of being interpreted.
+ */
+export function runReg(args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile("reg", args, { windowsHide: true }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(stderr.trim() || error.message));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+export function regImportArgs(path: string): string[] {
+  return ["import", path];
+}
+
+export function regQueryArgs(key: string): string[] {
+  return ["query", key];
+}
+
+export function regDeleteKeyArgs(key: string): string[] {
+  return ["delete", key, "/f"];
+}
+
+export function regCopyKeyArgs(from: string, to: string): string[] {
+  return ["copy", from, to, "/s", "/f"];
+}
+
+/** Direct subkeys listed by `reg query <key>`, as their last path segment. */
+export function parseSubkeys(stdout: string, parentKey: string): string[] {
+  const parentTail = parentKey.slice(parentKey.lastIndexOf("\\") + 1);
+  const keys: string[] = [];
+  for (const line of stdout.split(/\r?\n/).map((l) => l.trim())) {
+    if (!line.startsWith("HKEY_")) continue;
+    const segments = line.split("\\");
+    // The first HKEY_ line is the queried key itself
+    if (segments.length < 2 || segments[segments.length - 2] !== parentTail) continue;
+    keys.push(segments[segments.length - 1]);
+  }
+  return keys;
+}
+
+/** Values listed by `reg query <key>`. DWORDs are normalised from hex to decimal. */
+export function parseValues(stdout: string): RegistryValue[] {
+  const values: RegistryValue[] = [];
+  for (const line of stdout.split(/\r?\n/)) {
+    const m = line.match(/^ {4}(\S+) {4}(REG_[A-Z_]+)(?: {4}(.*))?$/);
+    if (!m) continue;
+    const [, name, type, data = ""] = m;
+    if (type === "REG_DWORD") {
+      const n = /^0x/i.test(data) ? parseInt(data, 16) : parseInt(data, 10);
+      values.push({ name, type, data: String(Number.isNaN(n) ? 0 : n) });
+    } else if (type === "REG_SZ" || type === "REG_EXPAND_SZ") {
+      values.push({ name, type: "REG_SZ", data });
+    }
+  }
+  return values;
+}
+
+export type RegistryKey = {
+  key: string;
+  values: RegistryValue[];
+};
+
+function quoteRegString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function formatRegData(value: RegistryValue): string {
+  if (value.type === "REG_DWORD") {
+    const n = Number(value.data);
+    if (!Number.isInteger(n) || n < 0 || n > 0xffffffff) {
+      throw new Error(`Invalid REG_DWORD data for ${value.name}: ${value.data}`);
+    }
+    return `dword:${n.toString(16).padStart(8, "0")}`;
+  }
+  // Line breaks and NULs cannot be quoted in a .reg file, so spell those out as UTF-16 bytes
+  if (/[\r\n\0]/.test(value.data)) {
+    const bytes = Buffer.from(value.data + "\0", "utf16le");
+    return `hex(1):${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join(",")}`;
+  }
+  return quoteRegString(value.data);
+}
+
+/** Renders keys and their values in the format regedit and `reg import` read. */
+export function toRegFile(keys: RegistryKey[]): string {
+  const lines = ["Windows Registry Editor Version 5.00", ""];
+  for (const { key, values } of keys) {
+    lines.push(`[${key.replace(/^HKCU\\/, "HKEY_CURRENT_USER\\")}]`);
+    for (const value of values) {
+      lines.push(`${quoteRegString(value.name)}=${formatRegData(value)}`);
+    }
+    lines.push("");
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+/** regedit expects UTF-16LE with a byte order mark. */
+export function encodeRegFile(text: string): Buffer {
+  return Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, "utf16le")]);
+}
+
+/** Writes all keys with a single `reg import`, which is much faster than one `reg add` per value. */
+export async function importRegistryKeys(keys: RegistryKey[]): Promise<void> {
+  const dir = await mkdtemp(join(tmpdir(), "putty-raycast-"));
+  const file = join(dir, "import.reg");
+  try {
+    await writeFile(file, encodeRegFile(toRegFile(keys)));
+    await runReg(regImportArgs(file));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+function unquoteRegString(quoted: string): string {
+  return quoted.slice(1, -1).replace(/\\(.)/g, "$1");
+}
+
+function parseRegData(name: string, data: string, lineNo: number): RegistryValue | undefined {
+  if (/^"(?:[^"\\]|\\.)*"$/.test(data)) {
+    return { name, type: "REG_SZ", data: unquoteRegString(data) };
+  }
+  const dwordMatch = data.match(/^dword:([0-9a-fA-F]{1,8})$/);
+  if (dwordMatch) {
+    return { name, type: "REG_DWORD", data: String(parseInt(dwordMatch[1], 16)) };
+  }
+  const hexMatch = data.match(/^hex\((1|2)\):([0-9a-fA-F,\s]*)$/);
+  if (hexMatch) {
+    const bytes = hexMatch[2]
+      .split(",")
+      .map((b) => b.trim())
+      .filter(Boolean)
+      .map((b) => parseInt(b, 16));
+    return { name, type: "REG_SZ", data: Buffer.from(bytes).toString("utf16le").replace(/\0+$/, "") };
+  }
+  if (data === "-") return undefined;
+  // Binary and multi-string values are not used by PuTTY sessions
+  if (/^hex(\([0-9a-fA-F]+\))?:/.test(data)) return undefined;
+  throw new Error(`Line ${lineNo}: cannot read the data of "${name}"`);
+}
+
+/** Reads a regedit export (version 5 or REGEDIT4). Deleted values and unsupported types are skipped. */
+export function parseRegFile(text: string): RegistryKey[] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const header = lines.findIndex((l) => l.trim() !== "");
+  if (header < 0 || !/^(Windows Registry Editor Version 5\.00|REGEDIT4)$/.test(lines[header].trim())) {
+    throw new Error("Not a registry file: missing the Windows Registry Editor header");
+  }
+
+  const keys: RegistryKey[] = [];
+  let current: RegistryKey | undefined;
+  for (let i = header + 1; i < lines.length; i++) {
+    const lineNo = i + 1;
+    let line = lines[i].trim();
+    // Long hex values are wrapped with a trailing backslash
+    while (/=hex(\([0-9a-fA-F]+\))?:.*\\$/.test(line) && i + 1 < lines.length) {
+      line = line.slice(0, -1) + lines[++i].trim();
+    }
+    if (!line || line.startsWith(";")) continue;
+
+    const keyMatch = line.match(/^\[(-?)(.+)\]$/);
+    if (keyMatch) {
+      if (keyMatch[1]) {
+        throw new Error(`Line ${lineNo}: deleting keys is not supported`);
+      }
+      current = { key: keyMatch[2].replace(/^HKEY_CURRENT_USER\\/i, "HKCU\\"), values: [] };
+      keys.push(current);
+      continue;
+    }
+
+    const valueMatch = line.match(/^("(?:[^"\\]|\\.)*"|@)=(.*)$/);
+    if (!valueMatch) throw new Error(`Line ${lineNo}: unexpected "${line}"`);
+    if (!current) throw new Error(`Line ${lineNo}: value outside of a key`);
+    // The unnamed default value is not used by PuTTY
+    if (valueMatch[1] === "@") continue;
+    const value = parseRegData(unquoteRegString(valueMatch[1]), valueMatch[2].trim(), lineNo);
+    if (value) current.values.push(value);
+  }
+  return keys;
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import { HostRun, ProcessRunner, RunnerExit, formatRunReport, runOnSessions, spawnRunner } from "./remote-run";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** A fake plink: each session's behaviour is looked up by the name after -load. */
+function stubRunner(hosts: Record<string, { ms?: number; out?: string; exit?: RunnerExit; fail?: string }>) {
+  const calls: { path: string; args: string[] }[] = [];
+  let running = 0;
+  let maxRunning = 0;
+  const runner: ProcessRunner = async (path, args, { onStdout }) => {
+    calls.push({ path, args });
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    try {
+      const host = hosts[args[1]];
+      await delay(host.ms ?? 0);
+      if (host.fail) throw new Error(host.fail);
+      if (host.out) onStdout(host.out);
+      return host.exit ?? { exitCode: 0, timedOut: false };
+    } finally {
+      running--;
+    }
+  };
+  return { runner, calls, maxRunning: () => maxRunning };
+}
+
+const options = { plinkPath: "plink.exe", timeoutMs: 1000, onUpdate: () => undefined };
+
+describe("runOnSessions", () => {
+  it("keeps going past failed hosts and reports each one", async () => {
+    const { runner } = stubRunner({
+      ok: { out: "up 3 days\n" },
+      exit1: { exit: { exitCode: 1, timedOut: false } },
+      missing: { fail: "spawn plink.exe ENOENT" },
+      slow: { exit: { exitCode: null, timedOut: true } },
+    });
+    const runs = await runOnSessions(["ok", "exit1", "missing", "slow"], "uptime", {
+      ...options,
+      concurrency: 2,
+      runner,
+    });
+    expect(runs.map(({ name, status, exitCode, error }) => ({ name, status, exitCode, error }))).toEqual([
+      { name: "ok", status: "succeeded", exitCode: 0, error: undefined },
+      { name: "exit1", status: "failed", exitCode: 1, error: undefined },
+      { name: "missing", status: "failed", exitCode: undefined, error: "spawn plink.exe ENOENT" },
+      { name: "slow", status: "timeout", exitCode: null, error: undefined },
+    ]);
+    expect(runs[0].stdout).toBe("up 3 days\n");
+  });
+
+  it("returns results in the order the sessions were given, not the order they finished", async () => {
+    const { runner } = stubRunner({ a: { ms: 30, out: "a" }, b: { ms: 0, out: "b" }, c: { ms: 10, out: "c" } });
+    const finished: string[] = [];
+    const runs = await runOnSessions(["a", "b", "c"], "hostname", {
+      ...options,
+      concurrency: 3,
+      runner,
+      onUpdate: (run) => {
+        if (run.status === "succeeded") finished.push(run.name);
+      },
+    });
+    expect(finished).toEqual(["b", "c", "a"]);
+    expect(runs.map((r) => r.stdout)).toEqual(["a", "b", "c"]);
+  });
+
+  it("runs at most `concurrency` hosts at once and starts them in order", async () => {
+    const names = ["h1", "h2", "h3", "h4", "h5", "h6", "h7"];
+    const { runner, calls, maxRunning } = stubRunner(Object.fromEntries(names.map((n) => [n, { ms: 5 }])));
+    await runOnSessions(names, "true", { ...options, concurrency: 3, runner });
+    expect(maxRunning()).toBe(3);
+    expect(calls.map((c) => c.args[1])).toEqual(names);
+    expect(calls[0]).toEqual({ path: "plink.exe", args: ["-load", "h1", "-batch", "true"] });
+  });
+
+  it("reports every host as queued, then running, then done", async () => {
+    const { runner } = stubRunner({ a: {}, b: {} });
+    const updates: HostRun[] = [];
+    await runOnSessions(["a", "b"], "true", { ...options, concurrency: 1, runner, onUpdate: (r) => updates.push(r) });
+    expect(updates.map((u) => `${u.name}:${u.status}`)).toEqual([
+      "a:queued",
+      "b:queued",
+      "a:running",
+      "a:succeeded",
+      "b:running",
+      "b:succeeded",
+    ]);
+  });
+});
+
+describe("spawnRunner", () => {
+  // Node itself stands in for plink
+  const node = process.execPath;
+  const run = (script: string, timeoutMs = 5000) => {
+    let stdout = "";
+    let stderr = "";
+    return spawnRunner(node, ["-e", script], {
+      timeoutMs,
+      onStdout: (c) => (stdout += c),
+      onStderr: (c) => (stderr += c),
+    }).then((exit) => ({ ...exit, stdout, stderr }));
+  };
+
+  it("streams output and reports the exit code", async () => {
+    expect(await run("console.log('out'); console.error('err'); process.exit(3)")).toEqual({
+      exitCode: 3,
+      timedOut: false,
+      stdout: "out\n",
+      stderr: "err\n",
+    });
+  });
+
+  it("kills a process that runs too long", async () => {
+    expect(await run("setTimeout(() => {}, 10000)", 100)).toMatchObject({ exitCode: null, timedOut: true });
+  });
+
+  it("rejects when the binary cannot be started", async () => {
+    await expect(
+      spawnRunner("/nonexistent/plink", [], { timeoutMs: 1000, onStdout: () => undefined, onStderr: () => undefined }),
+    ).rejects.toThrow("ENOENT");
+  });
+});
+
+describe("formatRunReport", () => {
+  it("lists each host with its result and output", () => {
+    const runs: HostRun[] = [
+      { name: "a", status: "succeeded", exitCode: 0, stdout: "ok\n", stderr: "" },
+      { name: "b", status: "failed", error: "spawn plink.exe ENOENT", stdout: "", stderr: "" },
+      { name: "c", status: "timeout", exitCode: null, stdout: "", stderr: "slow\n" },
+    ];
+    expect(formatRunReport("uptime", runs)).toBe(
+      "$ uptime\n\n=== a (exit code 0)\nok\n\n=== b (spawn plink.exe ENOENT)\n\n=== c (timed out)\n--- stderr\nslow\n",
+    );
+  });
+});
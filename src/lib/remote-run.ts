@@ -0,0 +1,105 @@
+import { spawn } from "node:child_process";
+import { mapWithConcurrency } from "./batch";
+
+export type RunnerOptions = {
+  timeoutMs: number;
+  onStdout: (chunk: string) => void;
+  onStderr: (chunk: string) => void;
+};
+
+export type RunnerExit = {
+  // null when the process was killed
+  exitCode: number | null;
+  timedOut: boolean;
+};
+
+/**
+ * Starts a process and streams its output. Rejects only when it cannot be started.
+ * Swapped out for a stub binary or a fake when testing.
+ */
+export type ProcessRunner = (path: string, args: string[], options: RunnerOptions) => Promise<RunnerExit>;
+
+export const spawnRunner: ProcessRunner = (path, args, { timeoutMs, onStdout, onStderr }) =>
+  new Promise((resolve, reject) => {
+    const child = spawn(path, args, { windowsHide: true, stdio: ["ignore", "pipe", "pipe"] });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill();
+    }, timeoutMs);
+    child.stdout.setEncoding("utf8").on("data", onStdout);
+    child.stderr.setEncoding("utf8").on("data", onStderr);
+    child.once("error", (e) => {
+      clearTimeout(timer);
+      reject(e);
+    });
+    child.once("close", (code) => {
+      clearTimeout(timer);
+      resolve({ exitCode: code, timedOut });
+    });
+  });
+
+export type HostRun = {
+  name: string;
+  status: "queued" | "running" | "succeeded" | "failed" | "timeout";
+  stdout: string;
+  stderr: string;
+  exitCode?: number | null;
+  // Set when plink could not be started at all
+  error?: string;
+  startedAt?: number;
+  endedAt?: number;
+};
+
+export type RunOptions = {
+  plinkPath: string;
+  concurrency: number;
+  timeoutMs: number;
+  runner?: ProcessRunner;
+  // Called with a fresh copy whenever a host's run changes, output included
+  onUpdate: (run: HostRun) => void;
+};
+
+export function plinkArgs(sessionName: string, command: string): string[] {
+  // -batch makes plink fail instead of waiting for a password or host key answer
+  return ["-load", sessionName, "-batch", command];
+}
+
+/** Runs `command` on every session through plink, at most `concurrency` at a time. */
+export async function runOnSessions(names: string[], command: string, options: RunOptions): Promise<HostRun[]> {
+  const { plinkPath, concurrency, timeoutMs, runner = spawnRunner, onUpdate } = options;
+  const runs = names.map((name): HostRun => ({ name, status: "queued", stdout: "", stderr: "" }));
+  runs.forEach((run) => onUpdate({ ...run }));
+
+  return mapWithConcurrency(runs, concurrency, async (run) => {
+    const update = (patch: Partial<HostRun>) => {
+      Object.assign(run, patch);
+      onUpdate({ ...run });
+    };
+    update({ status: "running", startedAt: Date.now() });
+    try {
+      const exit = await runner(plinkPath, plinkArgs(run.name, command), {
+        timeoutMs,
+        onStdout: (chunk) => update({ stdout: run.stdout + chunk }),
+        onStderr: (chunk) => update({ stderr: run.stderr + chunk }),
+      });
+      const status = exit.timedOut ? "timeout" : exit.exitCode === 0 ? "succeeded" : "failed";
+      update({ status, exitCode: exit.exitCode, endedAt: Date.now() });
+    } catch (e) {
+      update({ status: "failed", error: (e as Error).message, endedAt: Date.now() });
+    }
+    return { ...run };
+  });
+}
+
+/** Plain text report of all runs, for the clipboard or a file. */
+export function formatRunReport(command: string, runs: HostRun[]): string {
+  const sections = runs.map((run) => {
+    const result = run.error ?? (run.status === "timeout" ? "timed out" : `exit code ${run.exitCode ?? "?"}`);
+    const lines = [`=== ${run.name} (${result})`];
+    if (run.stdout.trim()) lines.push(run.stdout.trimEnd());
+    if (run.stderr.trim()) lines.push("--- stderr", run.stderr.trimEnd());
+    return lines.join("\n");
+  });
+  return [`$ ${command}`, ...sections].join("\n\n") + "\n";
+}
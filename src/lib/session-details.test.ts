@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { resolveJumpHost } from "./jump-hosts";
+import { DEFAULT_SESSION_VALUES } from "./session-schema";
+import { describeProxy, equivalentCommand, savedForwards } from "./session-details";
+import { createMemorySessionStore } from "./session-store";
+import { SessionValues } from "./types";
+
+const session = (values: Partial<SessionValues>): SessionValues => ({
+  ...DEFAULT_SESSION_VALUES,
+  extra: [],
+  ...values,
+});
+
+const web = session({ HostName: "web-01", UserName: "root", PortNumber: 2222 });
+const bastion = session({ HostName: "bastion.example.com", UserName: "jump", PortNumber: 2200 });
+
+describe("equivalentCommand", () => {
+  it("builds ssh with port, key and forwards", () => {
+    const values = { ...web, PublicKeyFile: "C:\\keys\\id_ed25519", PortForwardings: "L8080=localhost:80,4D1080" };
+    expect(equivalentCommand(values)).toEqual({
+      command: "ssh root@web-01 -p 2222 -i C:\\keys\\id_ed25519 -L 8080:localhost:80 -D 1080",
+      exact: true,
+    });
+  });
+
+  it("leaves .ppk keys out", () => {
+    expect(equivalentCommand({ ...web, PublicKeyFile: "C:\\keys\\id.ppk" })?.command).toBe("ssh root@web-01 -p 2222");
+  });
+
+  it("uses the resolved jump host, not the session name in ProxyHost", async () => {
+    // The proxy host is a session name; older saves left the proxy port at its default of 80
+    const values = { ...web, ProxyMethod: "ssh" as const, ProxyHost: "bastion", ProxyPort: 80 };
+    const store = createMemorySessionStore({ web: values, bastion });
+    const jumpHost = await resolveJumpHost(store, values);
+    expect(equivalentCommand(values, jumpHost)).toEqual({
+      command: "ssh root@web-01 -p 2222 -J jump@bastion.example.com:2200",
+      exact: true,
+    });
+    expect(describeProxy(values, jumpHost)).toBe("SSH via jump@bastion.example.com:2200");
+  });
+
+  it("resolves jump hosts reached through plink", async () => {
+    const values = {
+      ...web,
+      ProxyMethod: "cmd" as const,
+      ProxyTelnetCommand: '"C:\\PuTTY\\plink.exe" -load "bastion" -nc %host:%port',
+    };
+    const store = createMemorySessionStore({ web: values, bastion: { ...bastion, PortNumber: 22 } });
+    const jumpHost = await resolveJumpHost(store, values);
+    expect(equivalentCommand(values, jumpHost)?.command).toBe("ssh root@web-01 -p 2222 -J jump@bastion.example.com");
+  });
+
+  it("uses an SSH proxy host that is not a saved session as is", async () => {
+    const values = { ...web, ProxyMethod: "ssh" as const, ProxyHost: "gw.example.com", ProxyPort: 22 };
+    const jumpHost = await resolveJumpHost(createMemorySessionStore({ web: values }), values);
+    expect(equivalentCommand(values, jumpHost)?.command).toBe("ssh root@web-01 -p 2222 -J gw.example.com");
+  });
+
+  it("leaves out a jump host whose session has no host and says so", async () => {
+    const values = { ...web, ProxyMethod: "ssh" as const, ProxyHost: "bastion" };
+    const store = createMemorySessionStore({ web: values, bastion: session({}) });
+    const jumpHost = await resolveJumpHost(store, values);
+    expect(jumpHost).toBeUndefined();
+    expect(equivalentCommand(values, jumpHost)).toEqual({ command: "ssh root@web-01 -p 2222", exact: false });
+    expect(describeProxy(values, jumpHost)).toBe('SSH via saved session "bastion" (not found or without a host)');
+  });
+
+  it("marks commands that drop a SOCKS or HTTP proxy as not exact", () => {
+    const values = { ...web, Protocol: "telnet" as const, PortNumber: 23, ProxyMethod: "socks5" as const };
+    expect(equivalentCommand(values)).toEqual({ command: "telnet -l root web-01 23", exact: false });
+  });
+
+  it("covers the other protocols and quotes odd arguments", () => {
+    expect(equivalentCommand(session({ Protocol: "rlogin", HostName: "old", UserName: "o'brien" }))?.command).toBe(
+      'rlogin -l "o\'brien" old',
+    );
+    expect(equivalentCommand(session({ Protocol: "raw", HostName: "10.0.0.5", PortNumber: 7 }))?.command).toBe(
+      "nc 10.0.0.5 7",
+    );
+    expect(equivalentCommand(session({ Protocol: "serial", HostName: "x" }))).toBeUndefined();
+    expect(equivalentCommand(session({}))).toBeUndefined();
+  });
+});
+
+describe("savedForwards", () => {
+  it("reads PuTTY's stored form", () => {
+    expect(savedForwards("L8080=localhost:80,6R2222=localhost:22,D1080,")).toEqual([
+      { kind: "L", spec: "8080:localhost:80" },
+      { kind: "R", spec: "2222:localhost:22" },
+      { kind: "D", spec: "1080" },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { JumpHost } from "./jump-hosts";
+import { Forward } from "./putty-args";
+import { KnownSessionValues } from "./types";
+
+/**
+ * The forwards saved in a session. PuTTY keeps them as `L8080=localhost:80,D1080`, where a
+ * leading 4 or 6 limits the listening side to one IP version.
+ */
+export function savedForwards(value: string): Forward[] {
+  return value
+    .split(",")
+    .map((item) => /^[46]?([LRD])(.+)$/.exec(item.trim()))
+    .filter((m): m is RegExpExecArray => !!m)
+    .map((m) => ({ kind: m[1] as Forward["kind"], spec: m[2].replace("=", ":") }));
+}
+
+function quote(arg: string): string {
+  return /^[\w@%+=:,./\\-]+$/.test(arg) ? arg : `"${arg.replace(/"/g, '\\"')}"`;
+}
+
+/** `user@host:port` as -J takes it; the port only when it is not 22. */
+function jumpDestination(jump: JumpHost): string {
+  const user = jump.UserName ? `${jump.UserName}@` : "";
+  const port = jump.PortNumber && jump.PortNumber !== 22 ? `:${jump.PortNumber}` : "";
+  return `${user}${jump.HostName}${port}`;
+}
+
+export type EquivalentCommand = {
+  command: string;
+  // False when the session's proxy or jump host had to be left out, so the command connects directly
+  exact: boolean;
+};
+
+/**
+ * The command another client would run for the same connection, e.g.
+ * `ssh root@web-01 -p 2222`. Undefined for serial lines and sessions without a host.
+ * `jumpHost` is the resolved jump host (see `resolveJumpHost`), passed as `-J`.
+ *
+ * PuTTY's .ppk keys are not readable by OpenSSH, so they are left out; proxies other than
+ * a jump host that could be resolved have no short OpenSSH form and are left out as well.
+ */
+export function equivalentCommand(values: KnownSessionValues, jumpHost?: JumpHost): EquivalentCommand | undefined {
+  const host = values.HostName;
+  if (!host || values.Protocol === "serial") return undefined;
+  const port = values.PortNumber;
+  const user = values.UserName;
+  const direct = values.ProxyMethod === "none";
+  const build = (args: string[], exact = direct) => ({ command: args.map(quote).join(" "), exact });
+  switch (values.Protocol) {
+    case "ssh": {
+      const args = ["ssh", user ? `${user}@${host}` : host];
+      if (port && port !== 22) args.push("-p", String(port));
+      if (values.PublicKeyFile && !/\.ppk$/i.test(values.PublicKeyFile)) args.push("-i", values.PublicKeyFile);
+      if (!direct && jumpHost) args.push("-J", jumpDestination(jumpHost));
+      for (const f of savedForwards(values.PortForwardings)) args.push(`-${f.kind}`, f.spec);
+      return build(args, direct || !!jumpHost);
+    }
+    case "telnet":
+      return build(["telnet", ...(user ? ["-l", user] : []), host, String(port || 23)]);
+    case "rlogin":
+      return build(["rlogin", ...(user ? ["-l", user] : []), host]);
+    case "raw":
+      return build(["nc", host, String(port)]);
+  }
+}
+
+/**
+ * e.g. "SOCKS 5 via proxy.corp:1080 as alice", or undefined without a proxy. An SSH proxy
+ * names its saved session rather than a host, so it is shown through `jumpHost`.
+ */
+export function describeProxy(values: KnownSessionValues, jumpHost?: JumpHost): string | undefined {
+  // A jump host reached through plink, or any other local command
+  if (values.ProxyMethod === "cmd") {
+    const via = jumpHost ? ` (jumps via ${jumpDestination(jumpHost)})` : "";
+    return `Local command: ${values.ProxyTelnetCommand}${via}`;
+  }
+  if (values.ProxyMethod === "none" || !values.ProxyHost) return undefined;
+  if (values.ProxyMethod === "ssh") {
+    return jumpHost
+      ? `SSH via ${jumpDestination(jumpHost)}`
+      : `SSH via saved session "${values.ProxyHost}" (not found or without a host)`;
+  }
+  const kinds = {
+    socks4: "SOCKS 4",
+    socks5: "SOCKS 5",
+    http: "HTTP",
+    telnet: "Telnet",
+  };
+  const as = values.ProxyUsername ? ` as ${values.ProxyUsername}` : "";
+  return `${kinds[values.ProxyMethod]} via ${values.ProxyHost}:${values.ProxyPort}${as}`;
+}
@@ -0,0 +1,67 @@
+import { LocalStorage } from "@raycast/api";
+import { beforeEach, describe, expect, it } from "vitest";
+import { applyImport, mergeSessionValues, planImport } from "./session-import";
+import { DEFAULT_SESSION_VALUES, parseSessionValues, serializeSessionValues } from "./session-schema";
+import { createMemorySessionStore } from "./session-store";
+import { loadTrash, restoreFromTrash } from "./trash";
+
+const web = { ...DEFAULT_SESSION_VALUES, HostName: "web.example.com", UserName: "deploy", extra: [] };
+
+describe("mergeSessionValues", () => {
+  it("lets an imported value replace one kept raw from a newer PuTTY", () => {
+    const base = parseSessionValues([{ name: "Protocol", type: "REG_SZ", data: "supdup" }]);
+    const merged = mergeSessionValues(base, { Protocol: "ssh" });
+    expect(merged.extra).toEqual([]);
+    expect(serializeSessionValues(merged)).toContainEqual({ name: "Protocol", type: "REG_SZ", data: "ssh" });
+  });
+
+  it("keeps raw values the import does not set", () => {
+    const base = parseSessionValues([{ name: "ProxyMethod", type: "REG_DWORD", data: "7" }]);
+    const merged = mergeSessionValues(base, { HostName: "web.example.com" });
+    expect(serializeSessionValues(merged)).toContainEqual({ name: "ProxyMethod", type: "REG_DWORD", data: "7" });
+  });
+});
+
+describe("applyImport", () => {
+  beforeEach(async () => {
+    await LocalStorage.clear();
+  });
+
+  it("snapshots a session before overwriting it, so the import can be undone", async () => {
+    const store = createMemorySessionStore({ web });
+    const plan = await planImport(store, [
+      { name: "web", values: { HostName: "web.example.com", UserName: "root" }, warnings: [] },
+    ]);
+    expect(plan[0].status).toBe("update");
+
+    const [result] = await applyImport(store, plan);
+    expect((await store.read("web")).UserName).toBe("root");
+    expect(result.snapshot?.values.UserName).toBe("deploy");
+    expect(await loadTrash()).toEqual([result.snapshot]);
+
+    await restoreFromTrash(store, result.snapshot!);
+    expect((await store.read("web")).UserName).toBe("deploy");
+  });
+
+  it("snapshots a conflicting session the user chose to overwrite", async () => {
+    const store = createMemorySessionStore({ web });
+    const plan = await planImport(store, [{ name: "web", values: { HostName: "other.example.com" }, warnings: [] }]);
+    expect(plan[0].status).toBe("conflict");
+
+    const [result] = await applyImport(store, [{ ...plan[0], resolution: "write" }]);
+    expect(result.snapshot?.values.HostName).toBe("web.example.com");
+    expect((await store.read("web")).HostName).toBe("other.example.com");
+  });
+
+  it("takes no snapshot for new or renamed sessions", async () => {
+    const store = createMemorySessionStore({ web });
+    const plan = await planImport(store, [
+      { name: "db", values: { HostName: "db.example.com" }, warnings: [] },
+      { name: "web", values: { HostName: "other.example.com" }, warnings: [] },
+    ]);
+    const results = await applyImport(store, [plan[0], { ...plan[1], resolution: "rename", targetName: "web (2)" }]);
+    expect(results).toEqual([{ name: "db" }, { name: "web (2)" }]);
+    expect(await loadTrash()).toEqual([]);
+    expect((await store.read("web")).HostName).toBe("web.example.com");
+  });
+});
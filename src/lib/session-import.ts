@@ -0,0 +1,129 @@
+import { DEFAULT_SESSION_VALUES, serializeSessionValues } from "./session-schema";
+import { SessionStore } from "./session-store";
+import { TrashEntry, snapshotSession } from "./trash";
+import { SessionValues } from "./types";
+
+export type ImportCandidate = {
+  name: string;
+  // Only the values the source defines; the rest come from the existing session or defaults
+  values: Partial<SessionValues>;
+  // Things the source had that could not be carried over exactly
+  warnings: string[];
+};
+
+// new: no session by that name; update: same name and host; conflict: same name, other host
+export type ImportStatus = "new" | "update" | "conflict";
+
+export type ImportResolution = "write" | "rename" | "skip";
+
+export type ValueChange = {
+  name: string;
+  // Missing when the existing session does not have the value yet
+  before?: string;
+  after: string;
+};
+
+export type ImportPlanItem = ImportCandidate & {
+  status: ImportStatus;
+  resolution: ImportResolution;
+  // Name the session is written under; differs from `name` when renamed
+  targetName: string;
+  // What overwriting the existing session would change; empty for new sessions
+  changes: ValueChange[];
+};
+
+export type ImportResult = {
+  name: string;
+  error?: string;
+  // What an overwritten session held before, kept in the trash so the import can be undone
+  snapshot?: TrashEntry;
+};
+
+export function emptySessionValues(): SessionValues {
+  return { ...DEFAULT_SESSION_VALUES, extra: [] };
+}
+
+/** `name`, or `name (2)`, `name (3)`… whichever is not taken yet. */
+export function uniqueSessionName(name: string, taken: Iterable<string>): string {
+  const names = new Set(taken);
+  if (!names.has(name)) return name;
+  let i = 2;
+  while (names.has(`${name} (${i})`)) i++;
+  return `${name} (${i})`;
+}
+
+/**
+ * Compares candidates with the sessions in `store`. New sessions and same-host updates
+ * are written by default; conflicts are skipped until the user picks a resolution.
+ */
+export async function planImport(store: SessionStore, candidates: ImportCandidate[]): Promise<ImportPlanItem[]> {
+  const existing = new Set((await store.list()).map((s) => s.name));
+  const items: ImportPlanItem[] = [];
+  for (const candidate of candidates) {
+    if (!existing.has(candidate.name)) {
+      items.push({ ...candidate, status: "new", resolution: "write", targetName: candidate.name, changes: [] });
+      continue;
+    }
+    const current = await store.read(candidate.name);
+    const sameHost = current.HostName.toLowerCase() === (candidate.values.HostName ?? "").toLowerCase();
+    items.push({
+      ...candidate,
+      status: sameHost ? "update" : "conflict",
+      resolution: sameHost ? "write" : "skip",
+      targetName: candidate.name,
+      changes: diffSessionValues(current, mergeSessionValues(current, candidate.values)),
+    });
+  }
+  return items;
+}
+
+/** Changes how one item is handled, picking a free name when it is renamed. */
+export function resolvePlanItem(
+  items: ImportPlanItem[],
+  index: number,
+  resolution: ImportResolution,
+  existingNames: string[],
+): ImportPlanItem[] {
+  return items.map((item, i) => {
+    if (i !== index) return item;
+    if (resolution !== "rename") return { ...item, resolution, targetName: item.name };
+    const taken = [...existingNames, ...items.filter((_, j) => j !== i).map((other) => other.targetName)];
+    return { ...item, resolution, targetName: uniqueSessionName(item.name, taken) };
+  });
+}
+
+/** `incoming` over `base`; a value `incoming` sets also replaces any raw copy of it in `base.extra`. */
+export function mergeSessionValues(base: SessionValues, incoming: Partial<SessionValues>): SessionValues {
+  const extra = incoming.extra ?? [];
+  const names = new Set([...Object.keys(incoming), ...extra.map((v) => v.name)]);
+  return { ...base, ...incoming, extra: [...base.extra.filter((v) => !names.has(v.name)), ...extra] };
+}
+
+/** Registry-level differences between two sessions, in schema order. */
+export function diffSessionValues(before: SessionValues, after: SessionValues): ValueChange[] {
+  const old = new Map(serializeSessionValues(before).map((v) => [v.name, v.data]));
+  return serializeSessionValues(after)
+    .filter((v) => old.get(v.name) !== v.data)
+    .map((v) => ({ name: v.name, before: old.get(v.name), after: v.data }));
+}
+
+/**
+ * Writes every item that is not skipped. Updates are merged into the existing session so
+ * values the source does not know about survive, after a snapshot of it is taken.
+ */
+export async function applyImport(store: SessionStore, items: ImportPlanItem[]): Promise<ImportResult[]> {
+  const results: ImportResult[] = [];
+  for (const item of items) {
+    if (item.resolution === "skip") continue;
+    try {
+      const updating = item.resolution === "write" && item.status !== "new";
+      const snapshot = updating ? await snapshotSession(store, item.targetName, "edited") : undefined;
+      const base = snapshot ? snapshot.values : emptySessionValues();
+      await store.write(item.targetName, mergeSessionValues(base, item.values));
+      results.push({ name: item.targetName, snapshot });
+    } catch (e) {
+      results.push({ name: item.targetName, error: (e as Error).message });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,18 @@
+import { clearLaunchHistory, renameFavorite, renameLaunchHistory, setFavorite } from "./history";
+import { removeSessionTags, renameSessionTags } from "./tags";
+
+/**
+ * Tags, favorites and launch history are keyed by session name in the extension's storage;
+ * these keep them in step when the session itself is renamed or deleted.
+ */
+export async function renameSessionMeta(from: string, to: string) {
+  await renameSessionTags(from, to);
+  await renameFavorite(from, to);
+  await renameLaunchHistory(from, to);
+}
+
+export async function removeSessionMeta(name: string) {
+  await removeSessionTags(name);
+  await setFavorite(name, false);
+  await clearLaunchHistory(name);
+}
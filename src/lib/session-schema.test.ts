@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { parseRegFile, toRegFile } from "./registry";
+import { parseSessionValues, serializeSessionValues } from "./session-schema";
+
+// A regedit export of a session PuTTY saved with its default settings, trimmed to the values the schema knows
+const PUTTY_EXPORT = [
+  "Windows Registry Editor Version 5.00",
+  "",
+  "[HKEY_CURRENT_USER\\Software\\SimonTatham\\PuTTY\\Sessions\\web-01]",
+  '"Present"=dword:00000001',
+  '"HostName"="web-01.example.com"',
+  '"Protocol"="ssh"',
+  '"PortNumber"=dword:00000016',
+  '"CloseOnExit"=dword:00000001',
+  '"ProxyMethod"=dword:00000000',
+  '"ProxyPort"=dword:00000050',
+  '"SerialParity"=dword:00000000',
+  '"SerialFlowControl"=dword:00000001',
+  '"FontHeight"=dword:0000000a',
+  "",
+].join("\r\n");
+
+describe("session schema", () => {
+  const [exported] = parseRegFile(PUTTY_EXPORT);
+
+  it("reads PuTTY's own numbers", () => {
+    const values = parseSessionValues(exported.values);
+    expect(values).toMatchObject({
+      HostName: "web-01.example.com",
+      Protocol: "ssh",
+      PortNumber: 22,
+      CloseOnExit: "onexit",
+      ProxyMethod: "none",
+      ProxyPort: 80,
+      SerialParity: "none",
+      SerialFlowControl: "xonxoff",
+      FontHeight: 10,
+    });
+    expect(values.extra).toEqual([{ name: "Present", type: "REG_DWORD", data: "1" }]);
+  });
+
+  it("writes back the same values PuTTY wrote", () => {
+    const text = toRegFile([
+      { key: exported.key, values: serializeSessionValues(parseSessionValues(exported.values)) },
+    ]);
+    for (const line of PUTTY_EXPORT.split("\r\n").slice(3, -1)) {
+      expect(text).toContain(line);
+    }
+  });
+
+  it.each([
+    ["never", "0"],
+    ["onexit", "1"],
+    ["always", "2"],
+  ] as const)("stores CloseOnExit %s as %s", (option, data) => {
+    const values = { ...parseSessionValues([]), CloseOnExit: option };
+    const closeOnExit = serializeSessionValues(values).find((v) => v.name === "CloseOnExit");
+    expect(closeOnExit).toEqual({ name: "CloseOnExit", type: "REG_DWORD", data });
+    expect(parseSessionValues([closeOnExit!]).CloseOnExit).toBe(option);
+  });
+
+  it("still reads the option names older versions of this extension wrote", () => {
+    expect(parseSessionValues([{ name: "CloseOnExit", type: "REG_SZ", data: "always" }]).CloseOnExit).toBe("always");
+  });
+
+  // SSH exec/subsystem proxies (PuTTY 0.77+) and protocols this schema has no option for
+  const NEWER_PUTTY = [
+    { name: "ProxyMethod", type: "REG_DWORD", data: "7" },
+    { name: "Protocol", type: "REG_SZ", data: "supdup" },
+  ] as const;
+
+  it("keeps known values it cannot read in extra", () => {
+    const values = parseSessionValues([...NEWER_PUTTY]);
+    expect(values).toMatchObject({ ProxyMethod: "none", Protocol: "ssh" });
+    expect(values.extra).toEqual(NEWER_PUTTY);
+  });
+
+  it.each([
+    ["ProxyMethod", "REG_DWORD", "8"],
+    ["ProxyMethod", "REG_DWORD", "7"],
+    ["Protocol", "REG_SZ", "supdup"],
+    ["Protocol", "REG_SZ", "ssh-connection"],
+  ] as const)("writes %s %s back unchanged", (name, type, data) => {
+    const value = { name, type, data };
+    const written = serializeSessionValues(parseSessionValues([value]));
+    expect(written.filter((v) => v.name === name)).toEqual([value]);
+    const [roundTrip] = parseRegFile(toRegFile([{ key: exported.key, values: written }]));
+    expect(roundTrip.values).toContainEqual(value);
+  });
+
+  it("writes the typed value once the field is changed", () => {
+    const values = { ...parseSessionValues([...NEWER_PUTTY]), ProxyMethod: "socks5" as const };
+    const written = serializeSessionValues(values);
+    expect(written.filter((v) => v.name === "ProxyMethod")).toEqual([
+      { name: "ProxyMethod", type: "REG_DWORD", data: "2" },
+    ]);
+    expect(written.filter((v) => v.name === "Protocol")).toEqual([NEWER_PUTTY[1]]);
+  });
+});
@@ -0,0 +1,147 @@
+import { RegistryValue, RegistryValueType } from "./registry";
+import { KnownSessionValues, SessionValues } from "./types";
+
+type Codec<T> = {
+  type: RegistryValueType;
+  parse(value: RegistryValue): T | undefined;
+  format(value: T): string;
+};
+
+function text(): Codec<string> {
+  return { type: "REG_SZ", parse: (v) => v.data, format: (v) => v };
+}
+
+function dword(): Codec<number> {
+  return {
+    type: "REG_DWORD",
+    parse: (v) => {
+      const n = Number(v.data);
+      return Number.isInteger(n) && n >= 0 ? n : undefined;
+    },
+    format: (v) => String(v),
+  };
+}
+
+function textEnum<T extends string>(options: readonly T[]): Codec<T> {
+  return {
+    type: "REG_SZ",
+    parse: (v) => (options.includes(v.data as T) ? (v.data as T) : undefined),
+    format: (v) => v,
+  };
+}
+
+/** A DWORD whose numbers are indexes into `options`. */
+function dwordEnum<T extends string>(options: readonly T[]): Codec<T> {
+  return {
+    type: "REG_DWORD",
+    parse: (v) => {
+      if (v.type === "REG_SZ" && options.includes(v.data as T)) {
+        // Older versions of this extension wrote the option name instead of its number
+        return v.data as T;
+      }
+      return options[Number(v.data)];
+    },
+    format: (v) => String(options.indexOf(v)),
+  };
+}
+
+const SCHEMA: { [K in keyof KnownSessionValues]: Codec<KnownSessionValues[K]> } = {
+  HostName: text(),
+  PortNumber: dword(),
+  Protocol: textEnum(["raw", "telnet", "rlogin", "ssh", "serial"]),
+  // PuTTY numbers these 0 = never, 1 = only on clean exit, 2 = always
+  CloseOnExit: dwordEnum(["never", "onexit", "always"]),
+  UserName: text(),
+  PublicKeyFile: text(),
+  PortForwardings: text(),
+  TerminalType: text(),
+  ProxyMethod: dwordEnum(["none", "socks4", "socks5", "http", "telnet", "cmd", "ssh"]),
+  ProxyHost: text(),
+  ProxyPort: dword(),
+  ProxyUsername: text(),
+  ProxyTelnetCommand: text(),
+  SerialLine: text(),
+  SerialSpeed: dword(),
+  SerialDataBits: dword(),
+  SerialStopHalfbits: dword(),
+  SerialParity: dwordEnum(["none", "odd", "even", "mark", "space"]),
+  SerialFlowControl: dwordEnum(["none", "xonxoff", "rtscts", "dsrdtr"]),
+  Font: text(),
+  FontHeight: dword(),
+};
+
+const KNOWN_NAMES = Object.keys(SCHEMA) as (keyof KnownSessionValues)[];
+
+// Used for values a session does not have yet; mostly PuTTY's own defaults
+export const DEFAULT_SESSION_VALUES: SessionValues = {
+  HostName: "",
+  PortNumber: 22,
+  Protocol: "ssh",
+  CloseOnExit: "onexit",
+  UserName: "",
+  PublicKeyFile: "",
+  PortForwardings: "",
+  TerminalType: "xterm",
+  ProxyMethod: "none",
+  ProxyHost: "proxy",
+  ProxyPort: 80,
+  ProxyUsername: "",
+  ProxyTelnetCommand: "connect %host %port\\n",
+  SerialLine: "COM1",
+  SerialSpeed: 9600,
+  SerialDataBits: 8,
+  SerialStopHalfbits: 2,
+  SerialParity: "none",
+  SerialFlowControl: "xonxoff",
+  Font: "Courier New",
+  FontHeight: 10,
+  extra: [],
+};
+
+function isKnown(name: string): name is keyof KnownSessionValues {
+  return Object.prototype.hasOwnProperty.call(SCHEMA, name);
+}
+
+/**
+ * Typed values for the known names that are present, plus everything else in `extra`: unknown
+ * names, and known values this schema cannot read, such as a ProxyMethod or Protocol added by a
+ * newer PuTTY. Those keep their field's default here and are written back as they were.
+ */
+export function parsePartialSessionValues(values: RegistryValue[]): Partial<SessionValues> {
+  const known: Partial<Record<keyof KnownSessionValues, unknown>> = {};
+  const extra: RegistryValue[] = [];
+  for (const value of values) {
+    if (!isKnown(value.name)) {
+      extra.push(value);
+      continue;
+    }
+    const parsed = SCHEMA[value.name].parse(value);
+    if (parsed !== undefined) known[value.name] = parsed;
+    else extra.push(value);
+  }
+  return { ...(known as Partial<KnownSessionValues>), extra };
+}
+
+/** Builds the typed model from raw registry values, using defaults for anything missing. */
+export function parseSessionValues(values: RegistryValue[]): SessionValues {
+  return { ...DEFAULT_SESSION_VALUES, ...parsePartialSessionValues(values) } as SessionValues;
+}
+
+/**
+ * Registry values for the whole model: every known field first, then `extra`. A known value kept
+ * raw in `extra` is written as it was while its field still holds the default it was read as;
+ * once the field is set to something else, the typed value replaces it.
+ */
+export function serializeSessionValues(values: SessionValues): RegistryValue[] {
+  const raw = new Map(values.extra.filter((v) => isKnown(v.name)).map((v) => [v.name, v]));
+  const out: RegistryValue[] = KNOWN_NAMES.map((name) => {
+    const kept = raw.get(name);
+    if (kept && values[name] === DEFAULT_SESSION_VALUES[name]) return kept;
+    const codec = SCHEMA[name] as Codec<unknown>;
+    return { name, type: codec.type, data: codec.format(values[name]) };
+  });
+  for (const value of values.extra) {
+    if (!isKnown(value.name)) out.push(value);
+  }
+  return out;
+}
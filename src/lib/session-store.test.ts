@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { runReg } from "./registry";
+import { DEFAULT_SESSION_VALUES } from "./session-schema";
+import {
+  SCRATCH_SESSION,
+  SESSIONS_KEY,
+  createMemorySessionStore,
+  createRegistrySessionStore,
+  decodeSessionKey,
+  encodeSessionKey,
+  removeScratchSession,
+} from "./session-store";
+import { SessionValues } from "./types";
+
+vi.mock("./registry", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./registry")>()),
+  runReg: vi.fn(),
+}));
+
+const session = (values: Partial<SessionValues>): SessionValues => ({
+  ...DEFAULT_SESSION_VALUES,
+  extra: [],
+  ...values,
+});
+
+describe("memory session store", () => {
+  const seed = () =>
+    createMemorySessionStore({
+      web: session({ HostName: "web.example.com", extra: [{ name: "Colour0", type: "REG_SZ", data: "187,187,187" }] }),
+      db: session({ HostName: "db.example.com", PortNumber: 2222 }),
+    });
+
+  it("lists sessions by name and leaves out the scratch session", async () => {
+    const store = seed();
+    await store.write(SCRATCH_SESSION, session({ HostName: "tmp" }));
+    expect(await store.list()).toEqual([
+      { id: "db", name: "db" },
+      { id: "web", name: "web" },
+    ]);
+  });
+
+  it("reads saved values and falls back to the defaults", async () => {
+    const store = seed();
+    expect((await store.read("db")).PortNumber).toBe(2222);
+    expect(await store.read("missing")).toEqual({ ...DEFAULT_SESSION_VALUES, extra: [] });
+  });
+
+  it("does not hand out its own copy of the values", async () => {
+    const store = seed();
+    (await store.read("web")).extra.push({ name: "Stray", type: "REG_SZ", data: "" });
+    expect((await store.read("web")).extra).toHaveLength(1);
+  });
+
+  it("creates and overwrites on write", async () => {
+    const store = seed();
+    await store.write("new", session({ HostName: "new.example.com" }));
+    await store.write("db", session({ HostName: "db2.example.com" }));
+    expect((await store.read("new")).HostName).toBe("new.example.com");
+    expect((await store.read("db")).HostName).toBe("db2.example.com");
+  });
+
+  it("copies every value, unknown ones included", async () => {
+    const store = seed();
+    await store.copy("web", "web copy");
+    expect(await store.read("web copy")).toEqual(await store.read("web"));
+    expect((await store.list()).map((s) => s.name)).toContain("web");
+  });
+
+  it("renames and deletes", async () => {
+    const store = seed();
+    await store.rename("db", "database");
+    expect((await store.list()).map((s) => s.name)).toEqual(["database", "web"]);
+    expect((await store.read("database")).PortNumber).toBe(2222);
+    await store.delete("web");
+    expect((await store.list()).map((s) => s.name)).toEqual(["database"]);
+  });
+
+  it("refuses to copy or rename onto an existing session and changes nothing", async () => {
+    const store = seed();
+    await expect(store.copy("web", "db")).rejects.toThrow("Session already exists: db");
+    await expect(store.rename("web", "db")).rejects.toThrow("Session already exists: db");
+    expect((await store.read("db")).HostName).toBe("db.example.com");
+    expect((await store.read("web")).HostName).toBe("web.example.com");
+  });
+
+  it("fails on sessions that do not exist", async () => {
+    const store = seed();
+    await expect(store.copy("missing", "x")).rejects.toThrow("Session not found: missing");
+    await expect(store.rename("missing", "x")).rejects.toThrow("Session not found: missing");
+    await expect(store.delete("missing")).rejects.toThrow("Session not found: missing");
+    expect((await store.list()).map((s) => s.name)).toEqual(["db", "web"]);
+  });
+});
+
+describe("removeScratchSession", () => {
+  it("removes the scratch session once the grace period is over", async () => {
+    vi.useFakeTimers();
+    try {
+      const store = createMemorySessionStore({ [SCRATCH_SESSION]: session({ HostName: "tmp" }) });
+      const removed = removeScratchSession(store, 3000);
+      await vi.advanceTimersByTimeAsync(2999);
+      expect((await store.read(SCRATCH_SESSION)).HostName).toBe("tmp");
+      await vi.advanceTimersByTimeAsync(1);
+      await removed;
+      expect((await store.read(SCRATCH_SESSION)).HostName).toBe("");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("does nothing when there is no scratch session", async () => {
+    await expect(removeScratchSession(createMemorySessionStore(), 0)).resolves.toBeUndefined();
+  });
+});
+
+describe("registry session store rename", () => {
+  const reg = vi.mocked(runReg);
+  const key = (name: string) => `${SESSIONS_KEY}\\${encodeSessionKey(name)}`;
+
+  beforeEach(() => {
+    reg.mockReset();
+  });
+
+  it("deletes the copy when the original cannot be removed", async () => {
+    reg.mockImplementation(async (args) => {
+      const [verb, target] = args;
+      if (verb === "query" && target === key("new name")) throw new Error("not found");
+      if (verb === "delete" && target === key("old")) throw new Error("Access is denied.");
+      return "";
+    });
+
+    await expect(createRegistrySessionStore().rename("old", "new name")).rejects.toThrow("Access is denied.");
+    expect(reg.mock.calls.map(([args]) => args)).toEqual([
+      ["query", key("old")],
+      ["query", key("new name")],
+      ["copy", key("old"), key("new name"), "/s", "/f"],
+      ["delete", key("old"), "/f"],
+      ["delete", key("new name"), "/f"],
+    ]);
+  });
+
+  it("does not copy onto an existing session", async () => {
+    reg.mockResolvedValue("");
+    await expect(createRegistrySessionStore().rename("old", "taken")).rejects.toThrow("Session already exists: taken");
+    expect(reg.mock.calls.some(([args]) => args[0] === "copy" || args[0] === "delete")).toBe(false);
+  });
+});
+
+describe("encodeSessionKey", () => {
+  it.each([
+    ["prod/db-01", "prod/db-01"],
+    ["back\\slash", "back%5Cslash"],
+    ["100%", "100%25"],
+    ["web*?", "web%2A%3F"],
+    ['say "hi"', 'say%20"hi"'],
+    ["two\nlines\ttab", "two%0Alines%09tab"],
+    ["café", "caf%C3%A9"],
+    ["日本", "%E6%97%A5%E6%9C%AC"],
+    [" padded ", "%20padded%20"],
+    [".hidden", "%2Ehidden"],
+    ["a.b.", "a.b."],
+  ])("escapes %j like PuTTY", (raw, key) => {
+    expect(encodeSessionKey(raw)).toBe(key);
+    expect(decodeSessionKey(key)).toBe(raw);
+  });
+
+  it("keeps keys from legacy code pages readable", () => {
+    expect(decodeSessionKey("caf%E9")).toBe("café");
+  });
+});
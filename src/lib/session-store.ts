@@ -0,0 +1,253 @@
+import { environment } from "@raycast/api";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import {
+  importRegistryKeys,
+  parseSubkeys,
+  parseValues,
+  regCopyKeyArgs,
+  regDeleteKeyArgs,
+  regQueryArgs,
+  runReg,
+} from "./registry";
+import { DEFAULT_SESSION_VALUES, parseSessionValues, serializeSessionValues } from "./session-schema";
+import { SessionEntry, SessionValues } from "./types";
+
+export const SESSIONS_KEY = "HKCU\\Software\\SimonTatham\\PuTTY\\Sessions";
+
+// A temporary launch that needs a setting PuTTY has no flag for (such as CloseOnExit)
+// writes it here and starts PuTTY with -load. It is removed again once PuTTY has read it,
+// so it does not linger in PuTTY's own session list, and list() leaves it out meanwhile.
+export const SCRATCH_SESSION = "Raycast Temporary Launch";
+// How long PuTTY gets to read the scratch session after starting
+const SCRATCH_GRACE_MS = 3000;
+
+/**
+ * Everything the commands need to know about saved sessions. The registry is the real
+ * backend on Windows; the record backends let the list and forms run without one.
+ */
+export interface SessionStore {
+  list(): Promise<SessionEntry[]>;
+  // Resolves to the defaults when the session (or a value) is missing, like PuTTY does
+  read(name: string): Promise<SessionValues>;
+  // Creates the session if needed and overwrites the given values
+  write(name: string, values: SessionValues): Promise<void>;
+  // Both refuse to overwrite an existing session and carry every value, known or not
+  copy(from: string, to: string): Promise<void>;
+  rename(from: string, to: string): Promise<void>;
+  delete(name: string): Promise<void>;
+}
+
+/**
+ * Mirrors PuTTY's own escape_registry_key: spaces, `\\`, `*`, `?`, `%`, control and
+ * non-ASCII bytes and a leading `.` become `%XX`. Everything else is kept, so a name like
+ * `prod/db-01` maps to the same key PuTTY itself uses for `-load prod/db-01`.
+ */
+export function encodeSessionKey(raw: string): string {
+  let out = "";
+  const bytes = Buffer.from(raw, "utf8");
+  bytes.forEach((byte, i) => {
+    const ch = String.fromCharCode(byte);
+    const mustEscape =
+      ch === " " || ch === "\\" || ch === "*" || ch === "?" || ch === "%" || byte < 0x20 || byte > 0x7e;
+    if (mustEscape || (ch === "." && i === 0)) {
+      out += "%" + byte.toString(16).toUpperCase().padStart(2, "0");
+    } else {
+      out += ch;
+    }
+  });
+  return out;
+}
+
+export function decodeSessionKey(encoded: string): string {
+  const bytes: number[] = [];
+  for (let i = 0; i < encoded.length; i++) {
+    const hex = encoded.slice(i + 1, i + 3);
+    if (encoded[i] === "%" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(encoded.charCodeAt(i) & 0xff);
+    }
+  }
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(Uint8Array.from(bytes));
+  } catch {
+    // Written by PuTTY in a legacy code page; keep the bytes readable at least
+    return Buffer.from(bytes).toString("latin1");
+  }
+}
+
+/**
+ * Removes the scratch session after `graceMs`. Never rejects, so callers can leave it running
+ * in the background. Raycast may unload a command before that, so the list also calls this on
+ * start to sweep up a copy left behind.
+ */
+export async function removeScratchSession(store: SessionStore, graceMs = SCRATCH_GRACE_MS): Promise<void> {
+  if (graceMs > 0) await new Promise((resolve) => setTimeout(resolve, graceMs));
+  await store.delete(SCRATCH_SESSION).catch(() => undefined);
+}
+
+function sortEntries(entries: SessionEntry[]): SessionEntry[] {
+  return entries.filter((e) => e.name !== SCRATCH_SESSION).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function createRegistrySessionStore(): SessionStore {
+  const keyFor = (name: string) => {
+    // An empty name would address the Sessions key itself
+    if (!name) throw new Error("Session name is required");
+    return `${SESSIONS_KEY}\\${encodeSessionKey(name)}`;
+  };
+  const keyExists = (name: string) =>
+    runReg(regQueryArgs(keyFor(name))).then(
+      () => true,
+      () => false,
+    );
+  const copyKey = async (from: string, to: string) => {
+    if (!(await keyExists(from))) throw new Error(`Session not found: ${from}`);
+    // reg copy /f would merge into an existing key
+    if (await keyExists(to)) throw new Error(`Session already exists: ${to}`);
+    await runReg(regCopyKeyArgs(keyFor(from), keyFor(to)));
+  };
+
+  return {
+    async list() {
+      let stdout: string;
+      try {
+        stdout = await runReg(regQueryArgs(SESSIONS_KEY));
+      } catch {
+        return [];
+      }
+      return sortEntries(parseSubkeys(stdout, SESSIONS_KEY).map((id) => ({ id, name: decodeSessionKey(id) })));
+    },
+
+    async read(name) {
+      let stdout: string;
+      try {
+        stdout = await runReg(regQueryArgs(keyFor(name)));
+      } catch {
+        return { ...DEFAULT_SESSION_VALUES, extra: [] };
+      }
+      return parseSessionValues(parseValues(stdout));
+    },
+
+    async write(name, values) {
+      await importRegistryKeys([{ key: keyFor(name), values: serializeSessionValues(values) }]);
+    },
+
+    async copy(from, to) {
+      await copyKey(from, to);
+    },
+
+    async rename(from, to) {
+      // reg has no move; copy every value and subkey, then drop the original. If that
+      // fails, drop the copy instead so the session never exists twice or not at all.
+      await copyKey(from, to);
+      try {
+        await runReg(regDeleteKeyArgs(keyFor(from)));
+      } catch (e) {
+        await runReg(regDeleteKeyArgs(keyFor(to))).catch(() => undefined);
+        throw e;
+      }
+    },
+
+    async delete(name) {
+      await runReg(regDeleteKeyArgs(keyFor(name)));
+    },
+  };
+}
+
+type SessionRecord = Record<string, SessionValues>;
+
+function createRecordSessionStore(
+  load: () => Promise<SessionRecord>,
+  save: (record: SessionRecord) => Promise<void>,
+): SessionStore {
+  return {
+    async list() {
+      const record = await load();
+      return sortEntries(Object.keys(record).map((name) => ({ id: encodeSessionKey(name), name })));
+    },
+
+    async read(name) {
+      const record = await load();
+      const values = { ...DEFAULT_SESSION_VALUES, ...record[name] };
+      return { ...values, extra: [...values.extra] };
+    },
+
+    async write(name, values) {
+      const record = await load();
+      record[name] = { ...record[name], ...values };
+      await save(record);
+    },
+
+    async copy(from, to) {
+      const record = await load();
+      if (!(from in record)) throw new Error(`Session not found: ${from}`);
+      if (to in record) throw new Error(`Session already exists: ${to}`);
+      record[to] = structuredClone(record[from]);
+      await save(record);
+    },
+
+    async rename(from, to) {
+      const record = await load();
+      if (!(from in record)) throw new Error(`Session not found: ${from}`);
+      if (to in record) throw new Error(`Session already exists: ${to}`);
+      record[to] = record[from];
+      delete record[from];
+      await save(record);
+    },
+
+    async delete(name) {
+      const record = await load();
+      if (!(name in record)) throw new Error(`Session not found: ${name}`);
+      delete record[name];
+      await save(record);
+    },
+  };
+}
+
+/** Keeps sessions in memory only. Meant for tests and previews. */
+export function createMemorySessionStore(initial: SessionRecord = {}): SessionStore {
+  let record: SessionRecord = structuredClone(initial);
+  return createRecordSessionStore(
+    async () => structuredClone(record),
+    async (next) => {
+      record = next;
+    },
+  );
+}
+
+/** Keeps sessions in a JSON file, so the commands work on machines without a registry. */
+export function createFileSessionStore(path: string): SessionStore {
+  return createRecordSessionStore(
+    async () => {
+      try {
+        return JSON.parse(await readFile(path, "utf8")) as SessionRecord;
+      } catch {
+        return {};
+      }
+    },
+    async (record) => {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, JSON.stringify(record, null, 2), "utf8");
+    },
+  );
+}
+
+let currentStore: SessionStore | undefined;
+
+export function getSessionStore(): SessionStore {
+  if (!currentStore) {
+    currentStore =
+      process.platform === "win32"
+        ? createRegistrySessionStore()
+        : createFileSessionStore(join(environment.supportPath, "sessions.json"));
+  }
+  return currentStore;
+}
+
+/** Swaps the backend used by every command, e.g. for a fake in tests. */
+export function setSessionStore(store: SessionStore | undefined) {
+  currentStore = store;
+}
@@ -0,0 +1,113 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { encodeRegFile } from "./registry";
+import { parseSessionValues } from "./session-schema";
+import { ExportedSession, readSessionsFile, sessionsToJson, sessionsToRegFile } from "./session-transfer";
+
+const SESSIONS: ExportedSession[] = [
+  {
+    name: "web 01",
+    values: {
+      ...parseSessionValues([{ name: "Present", type: "REG_DWORD", data: "1" }]),
+      HostName: "web-01.example.com",
+      PortNumber: 2222,
+      UserName: "deploy",
+      ProxyMethod: "ssh",
+    },
+  },
+  { name: "switch/α", values: { ...parseSessionValues([]), HostName: "switch", Protocol: "telnet", PortNumber: 23 } },
+];
+
+const KEY = "HKEY_CURRENT_USER\\Software\\SimonTatham\\PuTTY\\Sessions";
+
+let dir: string;
+
+async function read(data: string | Buffer): Promise<Awaited<ReturnType<typeof readSessionsFile>>> {
+  const path = join(dir, "sessions");
+  await writeFile(path, data);
+  return readSessionsFile(path);
+}
+
+function regFile(lines: string[]): string {
+  return ["Windows Registry Editor Version 5.00", "", ...lines, ""].join("\r\n");
+}
+
+describe("readSessionsFile", () => {
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "session-transfer-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it.each([
+    ["a UTF-16LE .reg export", () => encodeRegFile(sessionsToRegFile(SESSIONS))],
+    ["a UTF-8 .reg export", () => sessionsToRegFile(SESSIONS)],
+    ["a JSON export", () => sessionsToJson(SESSIONS)],
+    ["a JSON export with a byte order mark", () => `\uFEFF${sessionsToJson(SESSIONS)}`],
+  ])("reads back %s", async (_, data) => {
+    const candidates = await read(data());
+    expect(candidates.map((c) => c.name)).toEqual(["web 01", "switch/α"]);
+    for (const [i, candidate] of candidates.entries()) {
+      expect({ ...parseSessionValues([]), ...candidate.values }).toEqual(SESSIONS[i].values);
+    }
+  });
+
+  it("skips keys outside the sessions key and subkeys of a session", async () => {
+    const candidates = await read(
+      regFile([
+        "[HKEY_CURRENT_USER\\Software\\SimonTatham\\PuTTY\\SshHostKeys]",
+        '"ssh-ed25519@22:web"="0x1"',
+        "",
+        `[${KEY}\\web]`,
+        '"HostName"="web.example.com"',
+        "",
+        `[${KEY}\\web\\Extra]`,
+        '"HostName"="not-a-session"',
+      ]),
+    );
+    expect(candidates).toEqual([{ name: "web", values: { HostName: "web.example.com", extra: [] }, warnings: [] }]);
+  });
+
+  it("rejects a .reg file without sessions", async () => {
+    await expect(read(regFile([`[HKEY_CURRENT_USER\\Software\\Other]`, '"a"="b"']))).rejects.toThrow(
+      "The file contains no PuTTY sessions",
+    );
+  });
+
+  it("rejects a session that appears twice", async () => {
+    await expect(read(sessionsToJson([SESSIONS[0], SESSIONS[0]]))).rejects.toThrow(
+      "Session web 01 appears more than once",
+    );
+    await expect(read(regFile([`[${KEY}\\web]`, "", `[${KEY}\\web]`]))).rejects.toThrow(
+      "Session web appears more than once",
+    );
+  });
+
+  it("rejects a DWORD that is not a number", async () => {
+    const doc = JSON.parse(sessionsToJson(SESSIONS));
+    doc.sessions[0].values.push({ name: "PortNumber", type: "REG_DWORD", data: "0x16" });
+    await expect(read(JSON.stringify(doc))).rejects.toThrow("Session 1 (web 01): PortNumber is not a valid DWORD");
+  });
+
+  it("rejects value types it cannot write back", async () => {
+    const doc = JSON.parse(sessionsToJson(SESSIONS));
+    doc.sessions[1].values.push({ name: "Blob", type: "REG_BINARY", data: "00" });
+    await expect(read(JSON.stringify(doc))).rejects.toThrow(
+      "Session 2 (switch/α): unsupported type REG_BINARY for Blob",
+    );
+  });
+
+  it("rejects exports from a newer version", async () => {
+    const doc = { ...JSON.parse(sessionsToJson(SESSIONS)), version: 2 };
+    await expect(read(JSON.stringify(doc))).rejects.toThrow("Unsupported export version 2");
+  });
+
+  it("rejects JSON that is not a sessions export", async () => {
+    await expect(read('{"sessions": []}')).rejects.toThrow("Not a PuTTY sessions export");
+    await expect(read("{ nope")).rejects.toThrow(/^Invalid JSON/);
+  });
+});
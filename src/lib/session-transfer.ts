@@ -0,0 +1,143 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { RegistryValue, encodeRegFile, parseRegFile, toRegFile } from "./registry";
+import { ImportCandidate } from "./session-import";
+import { parsePartialSessionValues, serializeSessionValues } from "./session-schema";
+import { SESSIONS_KEY, SessionStore, decodeSessionKey, encodeSessionKey } from "./session-store";
+import { SessionValues } from "./types";
+
+export type ExportFormat = "reg" | "json";
+
+export type ExportedSession = {
+  name: string;
+  values: SessionValues;
+};
+
+// Identifies our JSON documents; bump the version when the layout changes
+const JSON_FORMAT = "putty-sessions";
+const JSON_VERSION = 1;
+
+type SessionsDocument = {
+  format: typeof JSON_FORMAT;
+  version: number;
+  exportedAt: string;
+  sessions: { name: string; values: RegistryValue[] }[];
+};
+
+export async function readSessionsForExport(store: SessionStore, names: string[]): Promise<ExportedSession[]> {
+  const sessions: ExportedSession[] = [];
+  for (const name of names) {
+    sessions.push({ name, values: await store.read(name) });
+  }
+  return sessions;
+}
+
+/** A regedit file that recreates the sessions under PuTTY's usual key. */
+export function sessionsToRegFile(sessions: ExportedSession[]): string {
+  return toRegFile(
+    sessions.map((s) => ({
+      key: `${SESSIONS_KEY}\\${encodeSessionKey(s.name)}`,
+      values: serializeSessionValues(s.values),
+    })),
+  );
+}
+
+/** Keeps the raw registry values, so nothing is lost even for values this extension does not know. */
+export function sessionsToJson(sessions: ExportedSession[]): string {
+  const doc: SessionsDocument = {
+    format: JSON_FORMAT,
+    version: JSON_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessions: sessions.map((s) => ({ name: s.name, values: serializeSessionValues(s.values) })),
+  };
+  return JSON.stringify(doc, null, 2);
+}
+
+// Replaces the characters Windows does not allow in file names
+function safeFileName(name: string): string {
+  return Array.from(name, (c) => (c < " " || '<>:"/\\|?*'.includes(c) ? "_" : c)).join("");
+}
+
+/** Writes `<label>-<timestamp>.<extension>` to the Downloads folder and returns its path. */
+export async function saveToDownloads(label: string, extension: string, data: string | Buffer): Promise<string> {
+  const dir = join(homedir(), "Downloads");
+  await mkdir(dir, { recursive: true });
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, "-");
+  const path = join(dir, `${safeFileName(label)}-${stamp}.${extension}`);
+  await writeFile(path, data);
+  return path;
+}
+
+/** Writes the export to the Downloads folder and returns its path. */
+export async function saveExport(sessions: ExportedSession[], format: ExportFormat): Promise<string> {
+  const label = sessions.length === 1 ? sessions[0].name : "putty-sessions";
+  const data = format === "reg" ? encodeRegFile(sessionsToRegFile(sessions)) : sessionsToJson(sessions);
+  return saveToDownloads(label, format, data);
+}
+
+function checkValue(value: unknown, where: string): RegistryValue {
+  const v = value as Partial<RegistryValue>;
+  if (!v || typeof v.name !== "string" || !v.name || typeof v.data !== "string") {
+    throw new Error(`${where}: every value needs a name and string data`);
+  }
+  if (v.type !== "REG_SZ" && v.type !== "REG_DWORD") {
+    throw new Error(`${where}: unsupported type ${String(v.type)} for ${v.name}`);
+  }
+  if (v.type === "REG_DWORD" && !/^\d+$/.test(v.data)) {
+    throw new Error(`${where}: ${v.name} is not a valid DWORD`);
+  }
+  return { name: v.name, type: v.type, data: v.data };
+}
+
+function candidatesFromJson(text: string): ImportCandidate[] {
+  let doc: Partial<SessionsDocument>;
+  try {
+    doc = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Invalid JSON: ${(e as Error).message}`);
+  }
+  if (doc?.format !== JSON_FORMAT || !Array.isArray(doc.sessions)) {
+    throw new Error("Not a PuTTY sessions export");
+  }
+  if (typeof doc.version !== "number" || doc.version > JSON_VERSION) {
+    throw new Error(`Unsupported export version ${String(doc.version)}`);
+  }
+  return doc.sessions.map((session, i) => {
+    const where = `Session ${i + 1}`;
+    if (!session || typeof session.name !== "string" || !session.name.trim() || !Array.isArray(session.values)) {
+      throw new Error(`${where}: needs a name and a list of values`);
+    }
+    const values = session.values.map((v) => checkValue(v, `${where} (${session.name})`));
+    return { name: session.name, values: parsePartialSessionValues(values), warnings: [] };
+  });
+}
+
+function candidatesFromReg(text: string): ImportCandidate[] {
+  const prefix = `${SESSIONS_KEY}\\`.toLowerCase();
+  const candidates: ImportCandidate[] = [];
+  for (const { key, values } of parseRegFile(text)) {
+    if (!key.toLowerCase().startsWith(prefix)) continue;
+    const id = key.slice(prefix.length);
+    // Subkeys of a session (none in stock PuTTY) are not sessions themselves
+    if (!id || id.includes("\\")) continue;
+    candidates.push({ name: decodeSessionKey(id), values: parsePartialSessionValues(values), warnings: [] });
+  }
+  if (candidates.length === 0) throw new Error("The file contains no PuTTY sessions");
+  return candidates;
+}
+
+/** Reads a `.reg` or JSON export, detected by content rather than extension. */
+export async function readSessionsFile(path: string): Promise<ImportCandidate[]> {
+  const buffer = await readFile(path);
+  const text =
+    buffer[0] === 0xff && buffer[1] === 0xfe ? buffer.subarray(2).toString("utf16le") : buffer.toString("utf8");
+  const trimmed = text.replace(/^\uFEFF/, "").trimStart();
+  const candidates = trimmed.startsWith("{") ? candidatesFromJson(trimmed) : candidatesFromReg(trimmed);
+  const seen = new Set<string>();
+  for (const c of candidates) {
+    if (seen.has(c.name)) throw new Error(`Session ${c.name} appears more than once`);
+    seen.add(c.name);
+  }
+  return candidates;
+}
@@ -0,0 +1,189 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { SshHost, matchesHostPatterns, parseSshConfig, sshHostToCandidate } from "./ssh-config";
+
+let dir: string;
+
+async function config(files: Record<string, string[]>): Promise<string> {
+  for (const [name, lines] of Object.entries(files)) {
+    await mkdir(join(dir, name, ".."), { recursive: true });
+    await writeFile(join(dir, name), lines.join("\n"));
+  }
+  return join(dir, "config");
+}
+
+function host(alias: string, hosts: SshHost[]): SshHost | undefined {
+  return hosts.find((h) => h.alias === alias);
+}
+
+describe("parseSshConfig", () => {
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ssh-config-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("returns concrete aliases and applies wildcard blocks to them", async () => {
+    const hosts = await parseSshConfig(
+      await config({
+        config: [
+          "Host web db",
+          "  HostName %h.example.com",
+          "Host *.internal !bastion.internal",
+          "  User ops",
+          "Host app.internal bastion.internal",
+          "  Port 2222",
+          "Host *",
+          "  User root",
+        ],
+      }),
+    );
+    expect(hosts.map((h) => h.alias)).toEqual(["web", "db", "app.internal", "bastion.internal"]);
+    expect(host("db", hosts)).toMatchObject({ hostName: "db.example.com", user: "root" });
+    expect(host("app.internal", hosts)).toMatchObject({ hostName: "app.internal", port: 2222, user: "ops" });
+    expect(host("bastion.internal", hosts)?.user).toBe("root");
+  });
+
+  it("keeps the first value obtained for an option", async () => {
+    const hosts = await parseSshConfig(
+      await config({
+        config: ["Port 2200", "Host web", "  Port 22", "  User first", "  User second", "Host web", "  User third"],
+      }),
+    );
+    expect(host("web", hosts)).toMatchObject({ port: 2200, user: "first" });
+  });
+
+  it("collects every IdentityFile and LocalForward", async () => {
+    const hosts = await parseSshConfig(
+      await config({
+        config: [
+          "Host web",
+          "  IdentityFile ~/.ssh/web.ppk",
+          "  IdentityFile /keys/fallback",
+          "  LocalForward 8080 localhost:80",
+          "  LocalForward 127.0.0.1:5432 db:5432",
+        ],
+      }),
+    );
+    expect(host("web", hosts)).toMatchObject({
+      identityFiles: [expect.stringMatching(/[\\/]\.ssh[\\/]web\.ppk$/), "/keys/fallback"],
+      localForwards: ["8080 localhost:80", "127.0.0.1:5432 db:5432"],
+    });
+  });
+
+  it("follows relative and glob includes in name order", async () => {
+    const hosts = await parseSshConfig(
+      await config({
+        config: ["Include conf.d/*.conf", "Include extra"],
+        "conf.d/b.conf": ["Host b", "  HostName b.example.com"],
+        "conf.d/a.conf": ["Host a", "  HostName a.example.com"],
+        "conf.d/ignored.txt": ["Host ignored"],
+        extra: ["Host c"],
+      }),
+    );
+    expect(hosts.map((h) => h.alias)).toEqual(["a", "b", "c"]);
+    expect(host("b", hosts)?.hostName).toBe("b.example.com");
+  });
+
+  it("ignores includes that do not exist", async () => {
+    const hosts = await parseSshConfig(
+      await config({ config: ["Include missing", "Include nowhere/*.conf", "Host web", "  User deploy"] }),
+    );
+    expect(hosts).toEqual([expect.objectContaining({ alias: "web", user: "deploy" })]);
+  });
+
+  it("applies options after an Include to the block it appeared in", async () => {
+    const hosts = await parseSshConfig(
+      await config({
+        config: ["Host web", "  Include other", "  User deploy", "Host *", "  Port 2222"],
+        other: ["Host db", "  HostName db.example.com"],
+      }),
+    );
+    expect(host("web", hosts)).toMatchObject({ user: "deploy", port: 2222 });
+    expect(host("db", hosts)).toMatchObject({ hostName: "db.example.com", user: undefined, port: 2222 });
+  });
+
+  it("rejects a missing top-level file", async () => {
+    await expect(parseSshConfig(join(dir, "config"))).rejects.toThrow();
+  });
+});
+
+describe("matchesHostPatterns", () => {
+  it("needs a positive match and no negated one", () => {
+    expect(matchesHostPatterns("web.example.com", ["*.example.com"])).toBe(true);
+    expect(matchesHostPatterns("web1", ["web?"])).toBe(true);
+    expect(matchesHostPatterns("web12", ["web?"])).toBe(false);
+    expect(matchesHostPatterns("db.example.com", ["*.example.com", "!db.*"])).toBe(false);
+    expect(matchesHostPatterns("web", ["!db"])).toBe(false);
+  });
+});
+
+describe("sshHostToCandidate", () => {
+  const bastion: SshHost = {
+    alias: "bastion",
+    hostName: "bastion.example.com",
+    port: 2222,
+    user: "jump",
+    identityFiles: [],
+    localForwards: [],
+  };
+
+  it("maps host, port, user, key and LocalForward", () => {
+    const candidate = sshHostToCandidate(
+      {
+        alias: "web",
+        hostName: "web.example.com",
+        port: 2200,
+        user: "deploy",
+        identityFiles: ["/keys/web.ppk"],
+        localForwards: ["8080 localhost:80", "127.0.0.1:5432 db:5432"],
+      },
+      [],
+    );
+    expect(candidate).toEqual({
+      name: "web",
+      values: {
+        HostName: "web.example.com",
+        PortNumber: 2200,
+        Protocol: "ssh",
+        UserName: "deploy",
+        PublicKeyFile: "/keys/web.ppk",
+        PortForwardings: "L8080=localhost:80,L127.0.0.1:5432=db:5432",
+      },
+      warnings: [],
+    });
+  });
+
+  it("warns about OpenSSH keys", () => {
+    const web = { ...bastion, alias: "web", identityFiles: ["/keys/id_ed25519"] };
+    expect(sshHostToCandidate(web, []).warnings).toEqual([
+      "IdentityFile /keys/id_ed25519 must be converted to .ppk with PuTTYgen",
+    ]);
+  });
+
+  it("resolves a ProxyJump alias defined in the same config", () => {
+    const web = { ...bastion, alias: "web", hostName: "web.internal", proxyJump: "bastion" };
+    expect(sshHostToCandidate(web, [bastion, web]).values).toMatchObject({
+      ProxyMethod: "ssh",
+      ProxyHost: "bastion.example.com",
+      ProxyPort: 2222,
+      ProxyUsername: "jump",
+    });
+  });
+
+  it("uses the last hop of a ProxyJump chain and its own user and port", () => {
+    const web = { ...bastion, alias: "web", proxyJump: "first.example.com,admin@[2001:db8::1]:2022" };
+    const candidate = sshHostToCandidate(web, [bastion]);
+    expect(candidate.values).toMatchObject({
+      ProxyMethod: "ssh",
+      ProxyHost: "2001:db8::1",
+      ProxyPort: 2022,
+      ProxyUsername: "admin",
+    });
+    expect(candidate.warnings).toEqual([`ProxyJump chain ${web.proxyJump} reduced to its last hop`]);
+  });
+});
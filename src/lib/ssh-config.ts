@@ -0,0 +1,208 @@
+import { readFile, readdir } from "node:fs/promises";
+import { homedir } from "node:os";
+import { basename, dirname, isAbsolute, join } from "node:path";
+import { ImportCandidate } from "./session-import";
+import { SessionValues } from "./types";
+
+export type SshHost = {
+  // The `Host` name, used as the PuTTY session name
+  alias: string;
+  hostName: string;
+  port?: number;
+  user?: string;
+  identityFiles: string[];
+  proxyJump?: string;
+  localForwards: string[];
+};
+
+type Block = {
+  patterns: string[];
+  // Lower-cased keyword and its arguments, in file order
+  options: [string, string[]][];
+};
+
+const MAX_INCLUDE_DEPTH = 16;
+
+function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  const re = /"([^"]*)"|([^\s"=]+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(line))) tokens.push(m[1] ?? m[2]);
+  return tokens;
+}
+
+function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/") ? join(homedir(), path.slice(1)) : path;
+}
+
+function wildcardToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+/** ssh_config(5) pattern lists: any positive match, and no negated (`!`) match. */
+export function matchesHostPatterns(name: string, patterns: string[]): boolean {
+  let matched = false;
+  for (const pattern of patterns) {
+    if (pattern.startsWith("!")) {
+      if (wildcardToRegExp(pattern.slice(1)).test(name)) return false;
+    } else if (wildcardToRegExp(pattern).test(name)) {
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+async function expandInclude(pattern: string, baseDir: string): Promise<string[]> {
+  let path = expandHome(pattern);
+  if (!isAbsolute(path)) path = join(baseDir, path);
+  const name = basename(path);
+  if (!/[*?]/.test(name)) return [path];
+  try {
+    const re = wildcardToRegExp(name);
+    const entries = await readdir(dirname(path));
+    return entries
+      .filter((e) => re.test(e))
+      .sort()
+      .map((e) => join(dirname(path), e));
+  } catch {
+    return [];
+  }
+}
+
+async function readBlocks(path: string, baseDir: string, blocks: Block[], depth: number): Promise<void> {
+  if (depth > MAX_INCLUDE_DEPTH) throw new Error(`Include nested too deeply at ${path}`);
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (e) {
+    // Missing includes are ignored by ssh as well; only the top-level file must exist
+    if (depth === 0) throw e;
+    return;
+  }
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+    const [keyword, ...args] = tokenize(line);
+    if (!keyword) continue;
+    const key = keyword.toLowerCase();
+    if (key === "host") {
+      blocks.push({ patterns: args, options: [] });
+    } else if (key === "match") {
+      // Match conditions depend on the connection; treat the block as never matching
+      blocks.push({ patterns: [], options: [] });
+    } else if (key === "include") {
+      const current = blocks[blocks.length - 1];
+      const count = blocks.length;
+      for (const arg of args) {
+        for (const file of await expandInclude(arg, baseDir)) {
+          await readBlocks(file, baseDir, blocks, depth + 1);
+        }
+      }
+      // Options after the Include still belong to the block it appeared in, not the last included one
+      if (blocks.length > count) blocks.push({ patterns: current.patterns, options: [] });
+    } else {
+      blocks[blocks.length - 1].options.push([key, args]);
+    }
+  }
+}
+
+/**
+ * Parses an ssh_config file, following `Include`s, and resolves the options of every
+ * concrete `Host` alias the way ssh does: the first value obtained for an option wins.
+ * Wildcard-only patterns are not returned as hosts but still contribute their options.
+ */
+export async function parseSshConfig(path: string): Promise<SshHost[]> {
+  // Everything before the first Host line applies to all hosts
+  const blocks: Block[] = [{ patterns: ["*"], options: [] }];
+  // Relative includes resolve against the top-level file's directory, ~/.ssh for a user config
+  await readBlocks(path, dirname(path), blocks, 0);
+
+  const aliases: string[] = [];
+  for (const block of blocks) {
+    for (const pattern of block.patterns) {
+      if (!/[*?!]/.test(pattern) && !aliases.includes(pattern)) aliases.push(pattern);
+    }
+  }
+
+  return aliases.map((alias) => {
+    const single = new Map<string, string>();
+    const host: SshHost = { alias, hostName: alias, identityFiles: [], localForwards: [] };
+    for (const block of blocks) {
+      if (!matchesHostPatterns(alias, block.patterns)) continue;
+      for (const [key, args] of block.options) {
+        if (key === "identityfile" && args[0]) host.identityFiles.push(expandHome(args[0]));
+        else if (key === "localforward" && args.length >= 2) host.localForwards.push(`${args[0]} ${args[1]}`);
+        else if (!single.has(key) && args.length > 0) single.set(key, args.join(" "));
+      }
+    }
+    const hostName = single.get("hostname");
+    if (hostName) host.hostName = hostName.replace(/%h/g, alias);
+    const port = Number(single.get("port"));
+    if (Number.isInteger(port) && port > 0 && port <= 65535) host.port = port;
+    host.user = single.get("user");
+    const proxyJump = single.get("proxyjump");
+    if (proxyJump && proxyJump.toLowerCase() !== "none") host.proxyJump = proxyJump;
+    return host;
+  });
+}
+
+function parseEndpoint(spec: string): { user?: string; host: string; port?: number } {
+  const at = spec.lastIndexOf("@");
+  const user = at >= 0 ? spec.slice(0, at) : undefined;
+  let host = spec.slice(at + 1);
+  let port: number | undefined;
+  const m = host.match(/^\[(.+)\]:(\d+)$/) ?? host.match(/^([^:]+):(\d+)$/);
+  if (m) {
+    host = m[1];
+    port = Number(m[2]);
+  }
+  return { user, host, port };
+}
+
+/** `[bind:]port host:hostport` from a LocalForward line, in PuTTY's `L[bind:]port=host:hostport` form. */
+function toPuttyForward(forward: string): string {
+  const [listen, target] = forward.split(" ");
+  return `L${listen}=${target}`;
+}
+
+/**
+ * Maps a resolved ssh host onto PuTTY session values. A `ProxyJump` alias defined in the
+ * same config is resolved to its real host, port and user.
+ */
+export function sshHostToCandidate(host: SshHost, all: SshHost[]): ImportCandidate {
+  const warnings: string[] = [];
+  const values: Partial<SessionValues> = {
+    HostName: host.hostName,
+    PortNumber: host.port ?? 22,
+    Protocol: "ssh",
+    UserName: host.user ?? "",
+  };
+
+  const key = host.identityFiles[0];
+  if (key && key.toLowerCase().endsWith(".ppk")) {
+    values.PublicKeyFile = key;
+  } else if (key) {
+    warnings.push(`IdentityFile ${key} must be converted to .ppk with PuTTYgen`);
+  }
+
+  if (host.localForwards.length > 0) {
+    values.PortForwardings = host.localForwards.map(toPuttyForward).join(",");
+  }
+
+  if (host.proxyJump) {
+    const hops = host.proxyJump.split(",");
+    if (hops.length > 1) warnings.push(`ProxyJump chain ${host.proxyJump} reduced to its last hop`);
+    const hop = parseEndpoint(hops[hops.length - 1].trim());
+    const known = all.find((h) => h.alias === hop.host);
+    values.ProxyMethod = "ssh";
+    values.ProxyHost = known?.hostName ?? hop.host;
+    values.ProxyPort = hop.port ?? known?.port ?? 22;
+    values.ProxyUsername = hop.user ?? known?.user ?? "";
+  }
+
+  return { name: host.alias, values, warnings };
+}
@@ -0,0 +1,53 @@
+import { LocalStorage } from "@raycast/api";
+
+// Session name -> tags. PuTTY has no place for tags, so they live in the extension's storage.
+export type TagMap = Record<string, string[]>;
+
+const STORAGE_KEY = "session-tags";
+
+export async function loadTags(): Promise<TagMap> {
+  const raw = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as TagMap;
+  } catch {
+    return {};
+  }
+}
+
+async function saveTags(tags: TagMap) {
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(tags));
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  const cleaned = tags.map((t) => t.trim().toLowerCase()).filter(Boolean);
+  return Array.from(new Set(cleaned)).sort();
+}
+
+export async function setSessionTags(name: string, tags: string[]): Promise<TagMap> {
+  const map = await loadTags();
+  const normalized = normalizeTags(tags);
+  if (normalized.length > 0) map[name] = normalized;
+  else delete map[name];
+  await saveTags(map);
+  return map;
+}
+
+/** Keeps tags attached when a session is renamed or moved to another folder. */
+export async function renameSessionTags(from: string, to: string): Promise<TagMap> {
+  const map = await loadTags();
+  if (map[from]) {
+    map[to] = map[from];
+    delete map[from];
+    await saveTags(map);
+  }
+  return map;
+}
+
+export async function removeSessionTags(name: string): Promise<TagMap> {
+  return setSessionTags(name, []);
+}
+
+export function allTags(map: TagMap): string[] {
+  return normalizeTags(Object.values(map).flat());
+}
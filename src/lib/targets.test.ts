@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { formatTarget, parseTarget, resolveTarget, suggestPort, validHost } from "./targets";
+
+describe("parseTarget", () => {
+  it.each([
+    ["web-01", { host: "web-01" }],
+    ["root@web-01", { host: "web-01", user: "root" }],
+    ["web-01:2222", { host: "web-01", port: 2222 }],
+    ["root@web-01:2222", { host: "web-01", user: "root", port: 2222 }],
+    ["first.last@corp@jump.example.com", { host: "jump.example.com", user: "first.last@corp" }],
+    ["[::1]:22", { host: "::1", port: 22 }],
+    ["[fe80::1%eth0]", { host: "fe80::1%eth0" }],
+    ["2001:db8::1", { host: "2001:db8::1" }],
+    ["ssh://root@web-01:2222/", { host: "web-01", user: "root", port: 2222, protocol: "ssh" }],
+    ["SSH://web-01", { host: "web-01", protocol: "ssh" }],
+    ["ssh://first%40corp;fingerprint=ssh-ed25519-abc@web-01", { host: "web-01", user: "first@corp", protocol: "ssh" }],
+    ["telnet://switch:2323", { host: "switch", port: 2323, protocol: "telnet" }],
+    ["rlogin://old-box", { host: "old-box", protocol: "rlogin" }],
+    ["bücher.example", { host: "bücher.example" }],
+  ])("reads %s", (text, expected) => {
+    expect(parseTarget(text)).toEqual({ protocol: undefined, user: undefined, port: undefined, ...expected });
+  });
+
+  it.each(["", "  ", "web 01", "@web-01", "web-01:0", "web-01:65536", "web-01:ssh", "http://web-01", ":22"])(
+    "rejects %j",
+    (text) => {
+      expect(parseTarget(text)).toBeUndefined();
+    },
+  );
+});
+
+describe("validHost", () => {
+  it.each(["web-01", "10.0.0.1", "::1", "fe80::1%eth0", "bücher.example", "my_host", "host.example.com."])(
+    "accepts %s",
+    (host) => {
+      expect(validHost(host)).toBe(true);
+    },
+  );
+
+  it.each(["", " ", "web 01", "web\t01"])("rejects %j", (host) => {
+    expect(validHost(host)).toBe(false);
+  });
+});
+
+describe("suggestPort", () => {
+  it("switches an empty or default port to the new protocol's port", () => {
+    expect(suggestPort("", "ssh", "telnet")).toBe("23");
+    expect(suggestPort("22", "ssh", "telnet")).toBe("23");
+    expect(suggestPort("23", "telnet", "rlogin")).toBe("513");
+  });
+
+  it("keeps a port the user typed", () => {
+    expect(suggestPort("2222", "ssh", "telnet")).toBe("2222");
+  });
+
+  it("keeps the port for protocols without a usual one", () => {
+    expect(suggestPort("22", "ssh", "raw")).toBe("22");
+    expect(suggestPort("22", "ssh", "serial")).toBe("22");
+  });
+});
+
+describe("resolveTarget", () => {
+  it("defaults to SSH on port 22", () => {
+    expect(resolveTarget({ host: "web-01" })).toEqual({ host: "web-01", protocol: "ssh", port: 22 });
+  });
+
+  it("guesses the protocol from a well-known port", () => {
+    expect(resolveTarget({ host: "switch", port: 23 })).toMatchObject({ protocol: "telnet", port: 23 });
+    expect(resolveTarget({ host: "web-01", port: 2222 })).toMatchObject({ protocol: "ssh", port: 2222 });
+  });
+
+  it("fills in the port of an explicit protocol", () => {
+    expect(resolveTarget({ host: "switch", protocol: "telnet" })).toMatchObject({ protocol: "telnet", port: 23 });
+    expect(resolveTarget({ host: "box", protocol: "raw" })).toMatchObject({ protocol: "raw", port: 22 });
+  });
+
+  it("keeps the user", () => {
+    expect(resolveTarget({ host: "web-01", user: "root" }).user).toBe("root");
+  });
+});
+
+describe("formatTarget", () => {
+  it("leaves out the scheme for SSH and brackets IPv6 addresses", () => {
+    expect(formatTarget({ host: "web-01", user: "root" })).toBe("root@web-01:22");
+    expect(formatTarget({ host: "::1", port: 23 })).toBe("telnet://[::1]:23");
+  });
+});
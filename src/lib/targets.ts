@@ -0,0 +1,101 @@
+import { Protocol } from "./types";
+
+// Raw has no usual port and serial none at all
+export const DEFAULT_PORTS: Partial<Record<Protocol, number>> = {
+  ssh: 22,
+  telnet: 23,
+  rlogin: 513,
+};
+
+export type ParsedTarget = {
+  host: string;
+  protocol?: Protocol;
+  user?: string;
+  port?: number;
+};
+
+const SCHEMES: Record<string, Protocol> = { ssh: "ssh", telnet: "telnet", rlogin: "rlogin", raw: "raw" };
+
+/**
+ * Reads what people paste into a host field: `host`, `user@host`, `host:port`, `[::1]:22`,
+ * `ssh://user@host:port/` or `telnet://host:port`. Undefined when it is not a target.
+ */
+export function parseTarget(text: string): ParsedTarget | undefined {
+  let rest = text.trim();
+  if (!rest || /\s/.test(rest)) return undefined;
+
+  let protocol: Protocol | undefined;
+  const scheme = /^([a-z][a-z0-9+.-]*):\/\//i.exec(rest);
+  if (scheme) {
+    protocol = SCHEMES[scheme[1].toLowerCase()];
+    if (!protocol) return undefined;
+    rest = rest.slice(scheme[0].length).replace(/\/.*$/, "");
+  }
+
+  let user: string | undefined;
+  const at = rest.lastIndexOf("@");
+  if (at >= 0) {
+    // ssh:// URIs may carry ";fingerprint=…" parameters after the user
+    user = rest.slice(0, at).split(";")[0];
+    if (scheme) user = user.replace(/%([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    rest = rest.slice(at + 1);
+    if (!user) return undefined;
+  }
+
+  let host = rest;
+  let portText: string | undefined;
+  const bracketed = /^\[([^\]]+)\](?::(\d*))?$/.exec(rest);
+  if (bracketed) {
+    host = bracketed[1];
+    portText = bracketed[2];
+  } else if (rest.split(":").length === 2) {
+    // More than one colon without brackets is a bare IPv6 address, not host:port
+    [host, portText] = rest.split(":");
+  }
+  if (!validHost(host)) return undefined;
+
+  let port: number | undefined;
+  if (portText) {
+    port = Number(portText);
+    if (!validPort(port)) return undefined;
+  }
+  return { host, protocol, user, port };
+}
+
+export function validPort(port: number): boolean {
+  return Number.isInteger(port) && port > 0 && port <= 65535;
+}
+
+/**
+ * Anything without whitespace. PuTTY hands the name to the resolver as it is, so international
+ * names, IPv6 zone IDs and names only local DNS knows all have to be accepted here.
+ */
+export function validHost(host: string): boolean {
+  return host.length > 0 && !/\s/.test(host);
+}
+
+/**
+ * The port to show after switching protocols: the new protocol's usual port when the field
+ * is empty or still holds the old protocol's usual port, otherwise what the user typed.
+ */
+export function suggestPort(current: string, from: Protocol, to: Protocol): string {
+  const next = DEFAULT_PORTS[to];
+  if (next === undefined) return current;
+  const untouched = !current.trim() || Number(current) === DEFAULT_PORTS[from];
+  return untouched ? String(next) : current;
+}
+
+/** A target with the protocol and port filled in: from the URI, else guessed from the port, else SSH. */
+export function resolveTarget(target: ParsedTarget): Required<Omit<ParsedTarget, "user">> & { user?: string } {
+  const byPort = Object.entries(DEFAULT_PORTS).find(([, port]) => port === target.port)?.[0] as Protocol | undefined;
+  const protocol = target.protocol ?? byPort ?? "ssh";
+  return { ...target, protocol, port: target.port ?? DEFAULT_PORTS[protocol] ?? 22 };
+}
+
+/** Short form for lists and history keys: `root@web-01:2222`, with the scheme when not SSH. */
+export function formatTarget(target: ParsedTarget): string {
+  const { protocol, host, port, user } = resolveTarget(target);
+  const scheme = protocol === "ssh" ? "" : `${protocol}://`;
+  const hostPart = host.includes(":") ? `[${host}]` : host;
+  return `${scheme}${user ? `${user}@` : ""}${hostPart}:${port}`;
+}
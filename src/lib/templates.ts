@@ -0,0 +1,55 @@
+import { LocalStorage } from "@raycast/api";
+import { DEFAULT_SESSION_VALUES } from "./session-schema";
+import { SessionStore } from "./session-store";
+import { SessionValues } from "./types";
+
+// Template name -> session values without a host, e.g. "Prod SSH via bastion"
+export type TemplateMap = Record<string, SessionValues>;
+
+const STORAGE_KEY = "session-templates";
+
+export async function loadTemplates(): Promise<TemplateMap> {
+  const raw = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as TemplateMap;
+  } catch {
+    return {};
+  }
+}
+
+async function saveTemplates(templates: TemplateMap) {
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+}
+
+/**
+ * Saves every value of a session, unknown ones included, as a template. The host is left
+ * out since each session made from the template connects somewhere else.
+ */
+export async function saveSessionAsTemplate(
+  store: SessionStore,
+  sessionName: string,
+  templateName: string,
+): Promise<TemplateMap> {
+  const name = templateName.trim();
+  if (!name) throw new Error("Template name is required");
+  const values = await store.read(sessionName);
+  const templates = await loadTemplates();
+  templates[name] = { ...values, HostName: "" };
+  await saveTemplates(templates);
+  return templates;
+}
+
+export async function deleteTemplate(name: string): Promise<TemplateMap> {
+  const templates = await loadTemplates();
+  delete templates[name];
+  await saveTemplates(templates);
+  return templates;
+}
+
+/** Starting values for a new session, from a template or PuTTY's defaults. */
+export function templateValues(templates: TemplateMap, name: string | undefined): SessionValues {
+  const template = name ? templates[name] : undefined;
+  if (!template) return { ...DEFAULT_SESSION_VALUES, extra: [] };
+  return { ...DEFAULT_SESSION_VALUES, ...structuredClone(template) };
+}
@@ -0,0 +1,59 @@
+import { ChildProcess, spawn } from "node:child_process";
+import { EventEmitter } from "node:events";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { consoleCommand, launchInConsole } from "./tools";
+
+vi.mock("node:child_process", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("node:child_process")>()),
+  spawn: vi.fn(),
+}));
+
+/** A child process that reports `event` on the next tick. */
+function fakeChild(event: "spawn" | "error") {
+  const child = Object.assign(new EventEmitter(), { unref: vi.fn() });
+  process.nextTick(() => (event === "spawn" ? child.emit("spawn") : child.emit("error", new Error("spawn EACCES"))));
+  return child as unknown as ChildProcess;
+}
+
+describe("consoleCommand", () => {
+  it("opens the program through start with an empty window title", () => {
+    expect(consoleCommand("C:\\Program Files\\PuTTY\\psftp.exe", ["-load", "web"])).toEqual({
+      file: "cmd.exe",
+      args: ["/d", "/s", "/c", '"start "" "C:\\Program Files\\PuTTY\\psftp.exe" "-load" "web""'],
+    });
+  });
+
+  it("keeps cmd.exe metacharacters in session names inside quotes", () => {
+    const { args } = consoleCommand("psftp.exe", ["-load", 'a & b | "c"']);
+    expect(args[3]).toBe('"start "" "psftp.exe" "-load" "a & b | ""c""""');
+  });
+});
+
+describe("launchInConsole", () => {
+  afterEach(() => {
+    vi.mocked(spawn).mockReset();
+  });
+
+  it("starts cmd.exe detached with the command line as is", async () => {
+    vi.mocked(spawn).mockImplementation(() => fakeChild("spawn"));
+    await launchInConsole(process.execPath, ["-load", "web"]);
+    const { file, args } = consoleCommand(process.execPath, ["-load", "web"]);
+    expect(spawn).toHaveBeenCalledWith(file, args, {
+      detached: true,
+      stdio: "ignore",
+      windowsVerbatimArguments: true,
+    });
+  });
+
+  it("rejects instead of crashing when cmd.exe cannot be started", async () => {
+    vi.mocked(spawn).mockImplementation(() => fakeChild("error"));
+    await expect(launchInConsole(process.execPath, [])).rejects.toThrow("spawn EACCES");
+  });
+
+  it("rejects a missing program without starting anything", async () => {
+    await expect(launchInConsole("/nonexistent/psftp", ["-load", "web"])).rejects.toThrow(
+      "Not found: /nonexistent/psftp",
+    );
+    expect(spawn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,143 @@
+import { execFile, spawn } from "node:child_process";
+import { dirname, join } from "node:path";
+import { fileExists } from "./putty";
+import { Preferences } from "./types";
+
+export type Tool = "putty" | "plink" | "pscp" | "psftp" | "kitty";
+
+export const TOOL_EXECUTABLES: Record<Tool, string> = {
+  putty: "putty.exe",
+  plink: "plink.exe",
+  pscp: "pscp.exe",
+  psftp: "psftp.exe",
+  kitty: "kitty.exe",
+};
+
+const TOOL_PREFERENCES: Record<Tool, keyof Preferences> = {
+  putty: "puttyPath",
+  plink: "plinkPath",
+  pscp: "pscpPath",
+  psftp: "psftpPath",
+  kitty: "kittyPath",
+};
+
+/**
+ * Where a tool is looked for when its preference is empty or wrong, in order: next to
+ * putty.exe (the installer puts them together), the usual install directories, Scoop and
+ * Chocolatey, then PATH.
+ */
+export function toolCandidates(tool: Tool, puttyPath: string, env: NodeJS.ProcessEnv = process.env): string[] {
+  const exe = TOOL_EXECUTABLES[tool];
+  const product = tool === "kitty" ? "KiTTY" : "PuTTY";
+  const programData = env.ProgramData ?? "C:\\ProgramData";
+  const chocolatey = env.ChocolateyInstall ?? join(programData, "chocolatey");
+  const dirs = [
+    puttyPath ? dirname(puttyPath) : undefined,
+    ...[env.ProgramFiles, env["ProgramFiles(x86)"], env.LOCALAPPDATA && join(env.LOCALAPPDATA, "Programs")].map(
+      (root) => root && join(root, product),
+    ),
+    ...[
+      env.SCOOP ?? (env.USERPROFILE && join(env.USERPROFILE, "scoop")),
+      env.SCOOP_GLOBAL ?? join(programData, "scoop"),
+    ].map((root) => root && join(root, "apps", product.toLowerCase(), "current")),
+    // Chocolatey shims everything into bin; the portable package keeps the real files in tools
+    join(chocolatey, "bin"),
+    join(chocolatey, "lib", `${product.toLowerCase()}.portable`, "tools"),
+    ...(env.PATH ?? env.Path ?? "").split(";"),
+  ];
+  return Array.from(new Set(dirs.filter((d): d is string => !!d).map((d) => join(d, exe))));
+}
+
+/** Every candidate that exists, in search order. */
+export async function discoverTool(tool: Tool, puttyPath: string): Promise<string[]> {
+  const found: string[] = [];
+  for (const candidate of toolCandidates(tool, puttyPath)) {
+    if (await fileExists(candidate)) found.push(candidate);
+  }
+  return found;
+}
+
+/** The configured path when it exists, otherwise the first candidate that does. */
+export async function findTool(tool: Tool, prefs: Preferences): Promise<string | undefined> {
+  const configured = (prefs[TOOL_PREFERENCES[tool]] as string | undefined)?.trim();
+  if (configured && (await fileExists(configured))) return configured;
+  for (const candidate of toolCandidates(tool, prefs.puttyPath)) {
+    if (await fileExists(candidate)) return candidate;
+  }
+  return undefined;
+}
+
+export async function findTools(prefs: Preferences): Promise<Partial<Record<Tool, string>>> {
+  const found: Partial<Record<Tool, string>> = {};
+  for (const tool of Object.keys(TOOL_EXECUTABLES) as Tool[]) {
+    const path = await findTool(tool, prefs);
+    if (path) found[tool] = path;
+  }
+  return found;
+}
+
+/**
+ * The cmd.exe command line that opens `path` in a console window of its own. An interactive
+ * program such as psftp needs a real console; spawned directly with ignored stdio it gets NUL
+ * handles and exits at once. Every argument is quoted, so spaces, `&` or `|` in session names
+ * reach the program instead of cmd.exe.
+ */
+export function consoleCommand(path: string, args: string[]): { file: string; args: string[] } {
+  const quoted = [path, ...args].map((arg) => `"${arg.replace(/"/g, '""')}"`).join(" ");
+  // /s strips only the outer quotes; the empty title stops start taking the quoted path as one
+  return { file: "cmd.exe", args: ["/d", "/s", "/c", `"start "" ${quoted}"`] };
+}
+
+/**
+ * Starts an interactive console program such as psftp in a new console window.
+ * Resolves once it is on its way; rejects when it is missing or cmd.exe cannot be started.
+ */
+export async function launchInConsole(path: string, args: string[]): Promise<void> {
+  if (!(await fileExists(path))) throw new Error(`Not found: ${path}`);
+  const command = consoleCommand(path, args);
+  await new Promise<void>((resolve, reject) => {
+    // The command line is quoted above; Node's own quoting would escape the quotes for cmd.exe
+    const child = spawn(command.file, command.args, {
+      detached: true,
+      stdio: "ignore",
+      windowsVerbatimArguments: true,
+    });
+    child.once("error", reject);
+    child.once("spawn", () => {
+      child.unref();
+      resolve();
+    });
+  });
+}
+
+export type ProcessResult = {
+  stdout: string;
+  stderr: string;
+  // null when the process was killed, e.g. by the timeout
+  exitCode: number | null;
+  timedOut: boolean;
+};
+
+/** Runs a console program to completion without a window. Never rejects for a non-zero exit. */
+export function runProcess(path: string, args: string[], timeoutMs: number): Promise<ProcessResult> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      path,
+      args,
+      { windowsHide: true, timeout: timeoutMs, maxBuffer: 4 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error && typeof error.code === "string") {
+          // Could not be started at all (ENOENT, EACCES…)
+          reject(error);
+          return;
+        }
+        resolve({
+          stdout,
+          stderr,
+          exitCode: error ? (typeof error.code === "number" ? error.code : null) : 0,
+          timedOut: !!error?.killed,
+        });
+      },
+    );
+  });
+}
@@ -0,0 +1,65 @@
+import { LocalStorage } from "@raycast/api";
+import { beforeEach, describe, expect, it } from "vitest";
+import { loadFavorites, loadHistory, recordLaunch, setFavorite } from "./history";
+import { DEFAULT_SESSION_VALUES } from "./session-schema";
+import { createMemorySessionStore } from "./session-store";
+import { loadTags, setSessionTags } from "./tags";
+import { deleteToTrash, loadTrash, restoreFromTrash, snapshotSession } from "./trash";
+
+const web = { ...DEFAULT_SESSION_VALUES, HostName: "web.example.com", extra: [] };
+
+describe("trash", () => {
+  beforeEach(async () => {
+    await LocalStorage.clear();
+    await setSessionTags("web", ["prod"]);
+    await setFavorite("web", true);
+    await recordLaunch("web", 1000);
+    await recordLaunch("web", 2000);
+  });
+
+  it("brings back tags, the favorite flag and launch history with a deleted session", async () => {
+    const store = createMemorySessionStore({ web });
+    const entry = await deleteToTrash(store, "web");
+    expect(await loadFavorites()).toEqual([]);
+    expect(await loadHistory()).toEqual({});
+
+    expect(await restoreFromTrash(store, entry)).toBe("web");
+    expect((await store.read("web")).HostName).toBe("web.example.com");
+    expect((await loadTags()).web).toEqual(["prod"]);
+    expect(await loadFavorites()).toEqual(["web"]);
+    expect((await loadHistory()).web).toEqual({ count: 2, recent: [2000, 1000] });
+    expect(await loadTrash()).toEqual([]);
+  });
+
+  it("restores under a free name when the old one was taken", async () => {
+    const store = createMemorySessionStore({ web });
+    const entry = await deleteToTrash(store, "web");
+    await store.write("web", { ...web, HostName: "other.example.com" });
+
+    const name = await restoreFromTrash(store, entry);
+    expect(name).not.toBe("web");
+    expect(await loadFavorites()).toEqual([name]);
+    expect((await loadHistory())[name]?.count).toBe(2);
+  });
+
+  it("keeps launches made after an edit when undoing it", async () => {
+    const store = createMemorySessionStore({ web });
+    const entry = await snapshotSession(store, "web", "edited");
+    await store.write("web", { ...web, HostName: "edited.example.com" });
+    await recordLaunch("web", 3000);
+
+    await restoreFromTrash(store, entry);
+    expect((await store.read("web")).HostName).toBe("web.example.com");
+    expect((await loadHistory()).web.count).toBe(3);
+  });
+
+  it("restores snapshots taken before favorites and history were kept", async () => {
+    const store = createMemorySessionStore({ web });
+    const { favorite, history, ...legacy } = await deleteToTrash(store, "web");
+    expect([favorite, history?.count]).toEqual([true, 2]);
+
+    await restoreFromTrash(store, legacy);
+    expect(await loadFavorites()).toEqual([]);
+    expect(await loadHistory()).toEqual({});
+  });
+});
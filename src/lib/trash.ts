@@ -0,0 +1,109 @@
+import { LocalStorage } from "@raycast/api";
+import { randomUUID } from "node:crypto";
+import { LaunchRecord, loadFavorites, loadHistory, restoreLaunchHistory, setFavorite } from "./history";
+import { uniqueSessionName } from "./session-import";
+import { removeSessionMeta } from "./session-meta";
+import { SessionStore } from "./session-store";
+import { loadTags, setSessionTags } from "./tags";
+import { SessionValues } from "./types";
+
+export type TrashEntry = {
+  id: string;
+  name: string;
+  // deleted: the session is gone; edited: the values it had before an edit
+  kind: "deleted" | "edited";
+  at: number;
+  values: SessionValues;
+  tags: string[];
+  // Missing in snapshots taken before favorites and history were kept
+  favorite?: boolean;
+  history?: LaunchRecord;
+};
+
+const STORAGE_KEY = "session-trash";
+// Oldest snapshots are dropped beyond this, so storage does not grow forever
+const MAX_ENTRIES = 200;
+
+export async function loadTrash(): Promise<TrashEntry[]> {
+  const raw = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw) as TrashEntry[];
+  } catch {
+    return [];
+  }
+}
+
+async function saveTrash(entries: TrashEntry[]) {
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(entries.slice(0, MAX_ENTRIES)));
+}
+
+/** Stores the full current contents of a session, newest first. */
+export async function snapshotSession(
+  store: SessionStore,
+  name: string,
+  kind: TrashEntry["kind"],
+): Promise<TrashEntry> {
+  const entry: TrashEntry = {
+    id: randomUUID(),
+    name,
+    kind,
+    at: Date.now(),
+    values: await store.read(name),
+    tags: (await loadTags())[name] ?? [],
+    favorite: (await loadFavorites()).includes(name),
+    history: (await loadHistory())[name],
+  };
+  await saveTrash([entry, ...(await loadTrash())]);
+  return entry;
+}
+
+/** Deletes a session after keeping a snapshot of it, along with its tags, favorite flag and history. */
+export async function deleteToTrash(store: SessionStore, name: string): Promise<TrashEntry> {
+  const entry = await snapshotSession(store, name, "deleted");
+  await store.delete(name);
+  await removeSessionMeta(name);
+  return entry;
+}
+
+/**
+ * Writes a snapshot back and drops it from the trash. A deleted session whose name was
+ * taken in the meantime comes back under a free name; an edit snapshot overwrites.
+ * Resolves to the name it was restored as.
+ */
+export async function restoreFromTrash(store: SessionStore, entry: TrashEntry): Promise<string> {
+  let name = entry.name;
+  if (entry.kind === "deleted") {
+    name = uniqueSessionName(
+      entry.name,
+      (await store.list()).map((s) => s.name),
+    );
+  } else {
+    // Values added since the edit would otherwise survive the restore
+    await store.delete(name).catch(() => undefined);
+  }
+  await store.write(name, entry.values);
+  if (entry.tags.length > 0) await setSessionTags(name, entry.tags);
+  // An edited session kept its favorite flag and has launched since; only a deleted one lost them
+  if (entry.kind === "deleted") {
+    if (entry.favorite) await setFavorite(name, true);
+    if (entry.history) await restoreLaunchHistory(name, entry.history);
+  }
+  await purgeFromTrash(entry.id);
+  return name;
+}
+
+/** Undo for a batch: restores every snapshot, stopping at the first failure. */
+export async function restoreAllFromTrash(store: SessionStore, entries: TrashEntry[]): Promise<void> {
+  for (const entry of entries) await restoreFromTrash(store, entry);
+}
+
+export async function purgeFromTrash(id: string): Promise<TrashEntry[]> {
+  const entries = (await loadTrash()).filter((e) => e.id !== id);
+  await saveTrash(entries);
+  return entries;
+}
+
+export async function emptyTrash(): Promise<void> {
+  await LocalStorage.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,64 @@
+import { RegistryValue } from "./registry";
+
+export type Preferences = {
+  puttyPath: string;
+  // Optional; found automatically when empty
+  plinkPath?: string;
+  pscpPath?: string;
+  psftpPath?: string;
+  kittyPath?: string;
+  checkReachability: boolean;
+  // Favicons are fetched only for these domains and their subdomains; none when empty
+  faviconDomains?: string;
+};
+
+export type Protocol = "raw" | "telnet" | "rlogin" | "ssh" | "serial";
+
+export type CloseOnExit = "always" | "never" | "onexit";
+
+export type ProxyMethod = "none" | "socks4" | "socks5" | "http" | "telnet" | "cmd" | "ssh";
+
+export type SerialParity = "none" | "odd" | "even" | "mark" | "space";
+
+export type SerialFlowControl = "none" | "xonxoff" | "rtscts" | "dsrdtr";
+
+/**
+ * The PuTTY session values this extension understands, named exactly like the registry
+ * values they are stored in.
+ */
+export type KnownSessionValues = {
+  HostName: string;
+  PortNumber: number;
+  Protocol: Protocol;
+  CloseOnExit: CloseOnExit;
+  UserName: string;
+  PublicKeyFile: string;
+  PortForwardings: string;
+  TerminalType: string;
+  ProxyMethod: ProxyMethod;
+  ProxyHost: string;
+  ProxyPort: number;
+  ProxyUsername: string;
+  ProxyTelnetCommand: string;
+  SerialLine: string;
+  SerialSpeed: number;
+  SerialDataBits: number;
+  // PuTTY counts stop bits in halves: 2 = 1, 3 = 1.5, 4 = 2
+  SerialStopHalfbits: number;
+  SerialParity: SerialParity;
+  SerialFlowControl: SerialFlowControl;
+  Font: string;
+  FontHeight: number;
+};
+
+export type SessionValues = KnownSessionValues & {
+  // Every other value found in the session, written back untouched
+  extra: RegistryValue[];
+};
+
+export type SessionEntry = {
+  // Registry key name as PuTTY stores it (escaped)
+  id: string;
+  // Human readable session name
+  name: string;
+};
@@ -0,0 +1,224 @@
+import {
+  Action,
+  ActionPanel,
+  Icon,
+  LaunchProps,
+  List,
+  Toast,
+  getPreferenceValues,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { useEffect, useState } from "react";
+import { SaveTargetForm } from "./components/quick-connect-views";
+import { matchFields } from "./lib/fuzzy";
+import {
+  AdHocHistory,
+  frecency,
+  lastLaunched,
+  loadAdHocHistory,
+  recordAdHocLaunch,
+  recordLaunch,
+  removeAdHocTarget,
+} from "./lib/history";
+import { dismissAfterLaunch, launchPutty } from "./lib/putty";
+import { buildPuttyArgs } from "./lib/putty-args";
+import { getSessionStore } from "./lib/session-store";
+import { ParsedTarget, formatTarget, parseTarget, resolveTarget } from "./lib/targets";
+import { findTools } from "./lib/tools";
+import { Preferences } from "./lib/types";
+
+type SavedSession = { name: string; host?: string };
+
+type Paths = { putty: string; plink?: string };
+
+export default function Command(props: LaunchProps<{ arguments: { target?: string } }>) {
+  const preferences = getPreferenceValues<Preferences>();
+  const argument = props.arguments.target?.trim() ?? "";
+  const { push } = useNavigation();
+  const [searchText, setSearchText] = useState<string>(argument);
+  const [sessions, setSessions] = useState<SavedSession[]>([]);
+  const [adHoc, setAdHoc] = useState<AdHocHistory>({});
+  const [justOpened, setJustOpened] = useState<ParsedTarget | undefined>();
+  const [paths, setPaths] = useState<Paths | undefined>();
+
+  const reloadAdHoc = async () => setAdHoc(await loadAdHocHistory());
+
+  // Takes the paths rather than reading state, since the first launch happens while they are being set
+  const openTarget = async (target: ParsedTarget, { putty, plink }: Paths) => {
+    const { protocol, host, port, user } = resolveTarget(target);
+    const { args } = buildPuttyArgs({ protocol, host, port, user });
+    if (!(await launchPutty(putty, args))) return;
+    setAdHoc(await recordAdHocLaunch(target));
+    setJustOpened(target);
+    setSearchText("");
+    await showToast({
+      style: Toast.Style.Success,
+      title: "Opened without saving",
+      message: formatTarget(target),
+      primaryAction: {
+        title: "Save as Session",
+        onAction: () => push(<SaveTargetForm target={target} plinkPath={plink} onSaved={afterSave} />),
+      },
+    });
+  };
+
+  const openSession = async (name: string, puttyPath: string) => {
+    if (!(await launchPutty(puttyPath, ["-load", name]))) return;
+    await recordLaunch(name);
+    await dismissAfterLaunch();
+  };
+
+  const afterSave = () => {
+    setJustOpened(undefined);
+    reloadAdHoc();
+  };
+
+  useEffect(() => {
+    (async () => {
+      const found = await findTools(preferences);
+      const resolved: Paths = { putty: found.putty ?? preferences.puttyPath, plink: found.plink };
+      setPaths(resolved);
+      const store = getSessionStore();
+      const list = await store.list();
+      setSessions(list.map((s) => ({ name: s.name })));
+      await reloadAdHoc();
+
+      // Launched from the root search with a target: open it straight away
+      if (argument) {
+        if (list.some((s) => s.name === argument)) {
+          await openSession(argument, resolved.putty);
+        } else {
+          const target = parseTarget(argument);
+          if (target) await openTarget(target, resolved);
+          else
+            await showToast({ style: Toast.Style.Failure, title: "Not a host or user@host:port", message: argument });
+        }
+      }
+
+      // Hosts make saved sessions findable by address too (best effort)
+      const withHosts = await Promise.all(
+        list.map(async (s) => {
+          try {
+            return { name: s.name, host: (await store.read(s.name)).HostName || undefined };
+          } catch {
+            return { name: s.name };
+          }
+        }),
+      );
+      setSessions(withHosts);
+    })();
+  }, []);
+
+  const query = searchText.trim();
+  const typed = query ? parseTarget(query) : undefined;
+  const now = Date.now();
+  const recent = Object.entries(adHoc)
+    .filter(([key]) => !query || matchFields(query, [{ label: "target", value: key }]))
+    .sort(([, a], [, b]) => frecency(b, now) - frecency(a, now));
+  const matchingSessions = query
+    ? sessions.filter((s) =>
+        matchFields(query, [
+          { label: "name", value: s.name },
+          { label: "host", value: s.host ?? "" },
+        ]),
+      )
+    : [];
+
+  const saveAction = (target: ParsedTarget) => (
+    <Action.Push
+      title="Save as Session"
+      icon={Icon.SaveDocument}
+      target={<SaveTargetForm target={target} plinkPath={paths?.plink} onSaved={afterSave} />}
+      shortcut={{ modifiers: ["ctrl"], key: "s" }}
+    />
+  );
+
+  return (
+    <List
+      isLoading={!paths}
+      filtering={false}
+      searchText={searchText}
+      onSearchTextChange={setSearchText}
+      searchBarPlaceholder="user@host:port, ssh://… or telnet://…"
+    >
+      <List.EmptyView
+        icon={Icon.Terminal}
+        title={query ? "Not a host or user@host:port" : "Type a host to connect to"}
+        description="For example root@web-01:2222 or telnet://10.0.0.5"
+      />
+      {typed && paths && (
+        <List.Section title="Connect">
+          <List.Item
+            icon={Icon.Play}
+            title={formatTarget(typed)}
+            subtitle="Open without saving"
+            actions={
+              <ActionPanel>
+                <Action title="Open in PuTTY" icon={Icon.Play} onAction={() => openTarget(typed, paths)} />
+                {saveAction(typed)}
+              </ActionPanel>
+            }
+          />
+        </List.Section>
+      )}
+      {justOpened && !query && (
+        <List.Section title="Just Opened">
+          <List.Item
+            icon={Icon.SaveDocument}
+            title={formatTarget(justOpened)}
+            subtitle="Save as a session to keep it"
+            actions={<ActionPanel>{saveAction(justOpened)}</ActionPanel>}
+          />
+        </List.Section>
+      )}
+      {paths && (
+        <List.Section title="Recent Targets">
+          {recent.map(([key, record]) => {
+            const last = lastLaunched(record);
+            return (
+              <List.Item
+                key={key}
+                icon={Icon.Clock}
+                title={key}
+                accessories={[
+                  { text: `${record.count}×`, tooltip: "Times opened" },
+                  ...(last ? [{ date: new Date(last), tooltip: "Last opened" }] : []),
+                ]}
+                actions={
+                  <ActionPanel>
+                    <Action title="Open in PuTTY" icon={Icon.Play} onAction={() => openTarget(record.target, paths)} />
+                    {saveAction(record.target)}
+                    <Action
+                      title="Remove from Recent"
+                      icon={Icon.Trash}
+                      style={Action.Style.Destructive}
+                      onAction={async () => setAdHoc(await removeAdHocTarget(key))}
+                    />
+                  </ActionPanel>
+                }
+              />
+            );
+          })}
+        </List.Section>
+      )}
+      {paths && (
+        <List.Section title="Saved Sessions">
+          {matchingSessions.map((s) => (
+            <List.Item
+              key={s.name}
+              icon={Icon.Terminal}
+              title={s.name}
+              subtitle={s.host}
+              actions={
+                <ActionPanel>
+                  <Action title="Open in PuTTY" icon={Icon.Play} onAction={() => openSession(s.name, paths.putty)} />
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      )}
+    </List>
+  );
+}
@@ -0,0 +1,25 @@
+import { Detail, getPreferenceValues } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { RunCommandForm } from "./components/remote-run-views";
+import { findTool } from "./lib/tools";
+import { Preferences } from "./lib/types";
+
+export default function Command() {
+  const preferences = getPreferenceValues<Preferences>();
+  // undefined while looking, null when plink was not found
+  const [plinkPath, setPlinkPath] = useState<string | null | undefined>();
+
+  useEffect(() => {
+    (async () => {
+      setPlinkPath((await findTool("plink", preferences)) ?? null);
+    })();
+  }, []);
+
+  if (plinkPath === undefined) return <Detail isLoading markdown="" />;
+  if (plinkPath === null) {
+    return (
+      <Detail markdown="# plink.exe not found\n\nInstall PuTTY with its command-line tools, or set **Plink Path** in the extension preferences." />
+    );
+  }
+  return <RunCommandForm plinkPath={plinkPath} />;
+}
@@ -1,418 +1,980 @@
-import { ActionPanel, Action, Icon, List, getPreferenceValues, showToast, Toast, Keyboard, Form, popToRoot, closeMainWindow } from "@raycast/api";
+import {
+  ActionPanel,
+  Action,
+  Alert,
+  Color,
+  confirmAlert,
+  useNavigation,
+  Icon,
+  List,
+  getPreferenceValues,
+  showToast,
+  showInFinder,
+  Toast,
+  Keyboard,
+  Form,
+  Clipboard,
+  LaunchType,
+  launchCommand,
+} from "@raycast/api";
 import { useEffect, useState } from "react";
-import { exec, execFile } from "node:child_process";
-import { access } from "node:fs/promises";
-import { constants as fsConstants } from "node:fs";
+import { BatchResults, BulkEditForm, BulkTagForm, showUndoToast } from "./components/batch-views";
+import { ManageIcons } from "./components/icon-views";
+import { DuplicateSessionForm, EditTagsForm, MoveSessionForm, RenameSessionForm } from "./components/organize-forms";
+import {
+  ConnectionFields,
+  SessionFields,
+  SessionFormErrors,
+  SessionFormValues,
+  applySessionForm,
+  sessionFormErrors,
+} from "./components/session-fields";
+import { SessionDetail } from "./components/session-detail";
+import { RunCommandForm } from "./components/remote-run-views";
+import { SaveTemplateForm } from "./components/template-views";
+import { CopyFileForm, RemoteCommandForm } from "./components/tool-views";
+import { RecentlyDeleted } from "./components/trash-view";
+import { runBatch } from "./lib/batch";
+import { FieldMatch, SearchField, highlight, matchFields } from "./lib/fuzzy";
+import { groupByFolder, matchesFilter, parseFilter, splitSessionName } from "./lib/grouping";
+import {
+  LaunchHistory,
+  clearLaunchHistory,
+  frecency,
+  lastLaunched,
+  loadFavorites,
+  loadHistory,
+  recordLaunch,
+  setFavorite,
+} from "./lib/history";
+import { IconSettings, loadFavicons, loadIconSettings, parseDomainList, sessionIcon, tagColor } from "./lib/icons";
+import { JumpHost, jumpCycleError, jumpSessionPort, resolveJumpHost } from "./lib/jump-hosts";
+import { dismissAfterLaunch, fileExists, launchPutty } from "./lib/putty";
+import { buildPuttyArgs, parseForwards } from "./lib/putty-args";
+import { Tool, findTools, launchInConsole } from "./lib/tools";
+import { ProbeResult, ProbeTarget, probeAll, targetKey } from "./lib/reachability";
+import { equivalentCommand } from "./lib/session-details";
+import { SCRATCH_SESSION, encodeSessionKey, getSessionStore, removeScratchSession } from "./lib/session-store";
+import { ExportFormat, readSessionsForExport, saveExport } from "./lib/session-transfer";
+import { TagMap, allTags, loadTags } from "./lib/tags";
+import { TrashEntry, deleteToTrash, snapshotSession } from "./lib/trash";
+import { Preferences, Protocol, SessionEntry, SessionValues } from "./lib/types";
 
-type Preferences = {
-  puttyPath: string;
-};
-
-type PuttySession = {
-  id: string;
-  name: string;
+type PuttySession = SessionEntry & {
   host?: string;
-  iconUrl?: string;
+  user?: string;
+  port?: number;
+  protocol?: Protocol;
 };
 
-type Protocol = "raw" | "telnet" | "rlogin" | "ssh" | "serial";
-type CloseOnExit = "always" | "never" | "onexit";
-
-function decodeSessionKey(encoded: string): string {
-  try {
-    // PuTTY stores session key names URL-encoded in the registry
-    return decodeURIComponent(encoded);
-  } catch {
-    return encoded;
-  }
-}
+const RECENT_LIMIT = 5;
 
-function encodeSessionKey(raw: string): string {
-  return encodeURIComponent(raw);
+function searchFields(s: PuttySession, tags: string[]): SearchField[] {
+  return [
+    { label: "name", value: s.name },
+    { label: "host", value: s.host ?? "" },
+    { label: "user", value: s.user ?? "" },
+    { label: "port", value: s.port ? String(s.port) : "" },
+    { label: "protocol", value: s.protocol ?? "" },
+    { label: "tags", value: tags.join(" ") },
+  ];
 }
 
-async function listPuttySessions(): Promise<PuttySession[]> {
-  const registryKey = "HKCU\\Software\\SimonTatham\\PuTTY\\Sessions";
-  return new Promise((resolve) => {
-    exec(`reg query "${registryKey}"`, (error, stdout) => {
-      if (error) {
-        resolve([]);
-        return;
-      }
-      const lines = stdout.split(/\r?\n/).map((l) => l.trim());
-      const sessions: PuttySession[] = [];
-      for (const line of lines) {
-        if (line.startsWith("HKEY_")) {
-          const match = line.match(/Sessions\\(.+)$/);
-          if (match && match[1]) {
-            const id = match[1];
-            const name = decodeSessionKey(id);
-            sessions.push({ id, name });
-          }
-        }
-      }
-      resolve(sessions.sort((a, b) => a.name.localeCompare(b.name)));
-    });
-  });
+function probeTarget(s: PuttySession): ProbeTarget | undefined {
+  if (!s.host || !s.port || s.protocol === "serial") return undefined;
+  return { host: s.host, port: s.port, banner: s.protocol === "ssh" || s.protocol === "telnet" };
 }
 
-async function fileExists(path: string): Promise<boolean> {
-  try {
-    await access(path, fsConstants.X_OK);
-    return true;
-  } catch {
-    try {
-      // On Windows, X_OK may not be enforced. Check for readability instead.
-      await access(path, fsConstants.R_OK);
-      return true;
-    } catch {
-      return false;
-    }
+function reachabilityAccessory(result: ProbeResult | undefined, checking: boolean): List.Item.Accessory[] {
+  if (checking)
+    return [{ icon: { source: Icon.CircleProgress, tintColor: Color.SecondaryText }, tooltip: "Checking…" }];
+  if (!result) return [];
+  const checked = `Checked ${new Date(result.checkedAt).toLocaleTimeString()}`;
+  if (result.status !== "up") {
+    const reason = result.status === "error" ? (result.error ?? "error") : result.status;
+    return [{ tag: { value: reason, color: Color.Red }, tooltip: `Unreachable: ${reason}. ${checked}` }];
   }
+  const ms = result.latencyMs ?? 0;
+  const color = ms < 100 ? Color.Green : ms < 500 ? Color.Yellow : Color.Orange;
+  return [{ tag: { value: `${ms} ms`, color }, tooltip: `${result.banner ?? "Reachable"}. ${checked}` }];
 }
 
-async function readSessionValues(sessionName: string): Promise<{ HostName: string; PortNumber: number; Protocol: Protocol; CloseOnExit: CloseOnExit; }> {
-  return new Promise((resolve) => {
-    const key = `HKCU\\Software\\SimonTatham\\PuTTY\\Sessions\\${encodeSessionKey(sessionName)}`;
-    exec(`reg query "${key}"`, (error, stdout) => {
-      const defaults = { HostName: "", PortNumber: 23, Protocol: "raw" as Protocol, CloseOnExit: "onexit" as CloseOnExit };
-      if (error) {
-        resolve(defaults);
-        return;
-      }
-      let HostName = defaults.HostName;
-      let PortNumber = defaults.PortNumber;
-      let Protocol: Protocol = defaults.Protocol;
-      let CloseOnExit: CloseOnExit = defaults.CloseOnExit;
-      const lines = stdout.split(/\r?\n/);
-      for (const line of lines) {
-        const m = line.match(/^\s*([A-Za-z0-9_]+)\s+REG_[A-Z0-9_]+\s+(.+)$/);
-        if (!m) continue;
-        const name = m[1];
-        const value = m[2].trim();
-        if (name === "HostName") HostName = value;
-        if (name === "PortNumber") {
-          if (/^0x/i.test(value)) PortNumber = parseInt(value, 16);
-          else PortNumber = parseInt(value, 10);
-        }
-        if (name === "Protocol") Protocol = value as Protocol;
-        if (name === "CloseOnExit") CloseOnExit = value as CloseOnExit;
-      }
-      resolve({ HostName, PortNumber, Protocol, CloseOnExit });
-    });
-  });
-}
-
-function writeRegistryValues(sessionName: string, values: { HostName: string; PortNumber: number; Protocol: Protocol; CloseOnExit: CloseOnExit; }) {
-  return new Promise<void>((resolve, reject) => {
-    const baseKey = `HKCU\\Software\\SimonTatham\\PuTTY\\Sessions\\${encodeSessionKey(sessionName)}`;
-    exec(`reg add "${baseKey}" /f`, (err) => {
-      if (err) {
-        reject(err);
-        return;
-      }
-      const commands = [
-        `reg add "${baseKey}" /v HostName /t REG_SZ /d "${values.HostName}" /f`,
-        `reg add "${baseKey}" /v PortNumber /t REG_DWORD /d ${values.PortNumber} /f`,
-        `reg add "${baseKey}" /v Protocol /t REG_SZ /d ${values.Protocol} /f`,
-        `reg add "${baseKey}" /v CloseOnExit /t REG_SZ /d ${values.CloseOnExit} /f`,
-      ];
-      let index = 0;
-      const runNext = () => {
-        if (index >= commands.length) {
-          resolve();
-          return;
-        }
-        const cmd = commands[index++];
-        exec(cmd, (err2) => {
-          if (err2) {
-            reject(err2);
-            return;
-          }
-          runNext();
-        });
-      };
-      runNext();
-    });
-  });
-}
+const PROTOCOL_TITLES: Record<Protocol, string> = {
+  raw: "Raw",
+  telnet: "Telnet",
+  rlogin: "Rlogin",
+  ssh: "SSH",
+  serial: "Serial",
+};
 
-function EditConnectionForm(props: { sessionName: string; puttyPath: string; onUpdated?: () => void }) {
-  const { sessionName, puttyPath, onUpdated } = props;
-  const [initial, setInitial] = useState<{ HostName: string; PortNumber: number; Protocol: Protocol; CloseOnExit: CloseOnExit } | null>(null);
+function EditConnectionForm(props: {
+  sessionName: string;
+  puttyPath: string;
+  plinkPath?: string;
+  onUpdated?: () => void;
+}) {
+  const { sessionName, puttyPath, plinkPath, onUpdated } = props;
+  const [initial, setInitial] = useState<SessionValues | null>(null);
+  const [jumpHosts, setJumpHosts] = useState<string[]>([]);
+  const [errors, setErrors] = useState<SessionFormErrors>({});
   useEffect(() => {
     (async () => {
-      const vals = await readSessionValues(sessionName);
+      const store = getSessionStore();
+      setJumpHosts((await store.list()).map((s) => s.name).filter((n) => n !== sessionName));
+      const vals = await store.read(sessionName);
       setInitial(vals);
     })();
   }, [sessionName]);
 
-  async function handleSubmit(values: { host: string; port: string; protocol: Protocol; closeOnExit: CloseOnExit }) {
-    const portNum = Number(values.port);
-    if (!values.host) {
-      await showToast({ style: Toast.Style.Failure, title: "Host is required" });
-      return;
-    }
-    if (!Number.isInteger(portNum) || portNum <= 0 || portNum > 65535) {
-      await showToast({ style: Toast.Style.Failure, title: "Invalid port" });
-      return;
-    }
+  async function handleSubmit(values: SessionFormValues) {
+    if (!initial) return;
+    const fieldErrors = sessionFormErrors(values);
+    setErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) return;
     try {
-      await writeRegistryValues(sessionName, { HostName: values.host, PortNumber: portNum, Protocol: values.protocol, CloseOnExit: values.closeOnExit });
-      await showToast({ style: Toast.Style.Success, title: "Session updated", message: sessionName });
-      const exists = await fileExists(puttyPath);
-      if (!exists) {
-        await showToast({ style: Toast.Style.Failure, title: "PuTTY path not found", message: puttyPath });
-      } else {
-        execFile(puttyPath, ["-load", sessionName], (error) => {
-          if (error) {
-            showToast({ style: Toast.Style.Failure, title: "Failed to launch PuTTY", message: error.message });
-          }
-        });
+      const store = getSessionStore();
+      const cycle = values.jumpHost ? await jumpCycleError(store, sessionName, values.jumpHost) : undefined;
+      if (cycle) {
+        setErrors({ jumpHost: cycle });
+        return;
       }
+      const snapshot = await snapshotSession(store, sessionName, "edited");
+      await store.write(
+        sessionName,
+        applySessionForm(initial, values, plinkPath, await jumpSessionPort(store, values.jumpHost)),
+      );
+      await showUndoToast({
+        title: "Session updated",
+        message: sessionName,
+        snapshots: [snapshot],
+        onUndone: () => onUpdated?.(),
+      });
+      if (await launchPutty(puttyPath, ["-load", sessionName])) await recordLaunch(sessionName);
       if (onUpdated) onUpdated();
-      try {
-        await popToRoot({ clearSearchBar: true });
-      } catch {}
-      try {
-        await closeMainWindow({ clearRootSearch: true } as any);
-      } catch {}
-    } catch (e: any) {
-      await showToast({ style: Toast.Style.Failure, title: "Failed to update session", message: e?.message });
+      await dismissAfterLaunch();
+    } catch (e) {
+      await showToast({ style: Toast.Style.Failure, title: "Failed to update session", message: (e as Error).message });
     }
   }
 
   return (
     <Form
+      isLoading={!initial}
       actions={
         <ActionPanel>
-          <Action.SubmitForm title="Save Changes" icon={Icon.Check} onSubmit={handleSubmit as any} />
+          <Action.SubmitForm title="Save Changes" icon={Icon.Check} onSubmit={handleSubmit} />
         </ActionPanel>
       }
     >
-      <Form.TextField id="host" title="Host name (or IP)" defaultValue={initial?.HostName} />
-      <Form.TextField id="port" title="Port" defaultValue={initial ? String(initial.PortNumber) : ""} />
-      <Form.Dropdown id="protocol" title="Connection type" defaultValue={initial?.Protocol || "raw"}>
-        <Form.Dropdown.Item title="Raw" value="raw" />
-        <Form.Dropdown.Item title="Telnet" value="telnet" />
-        <Form.Dropdown.Item title="Rlogin" value="rlogin" />
-        <Form.Dropdown.Item title="SSH" value="ssh" />
-        <Form.Dropdown.Item title="Serial" value="serial" />
-      </Form.Dropdown>
-      <Form.Dropdown id="closeOnExit" title="Close window on exit" defaultValue={initial?.CloseOnExit || "onexit"}>
-        <Form.Dropdown.Item title="Always" value="always" />
-        <Form.Dropdown.Item title="Never" value="never" />
-        <Form.Dropdown.Item title="Only on clean exit" value="onexit" />
-      </Form.Dropdown>
+      {initial && (
+        <SessionFields
+          initial={initial}
+          jumpHosts={jumpHosts}
+          errors={errors}
+          onClearError={(field) => setErrors((prev) => ({ ...prev, [field]: undefined }))}
+        />
+      )}
     </Form>
   );
 }
 
+type TempLaunchValues = SessionFormValues & {
+  keyFile?: string[];
+  password?: string;
+  forwards?: string;
+  x11?: boolean;
+  agentForwarding?: boolean;
+  compression?: boolean;
+  ipVersion?: "" | "4" | "6";
+};
+
 function TempEditForm(props: { sessionName: string; puttyPath: string }) {
   const { sessionName, puttyPath } = props;
-  const [initial, setInitial] = useState<{ HostName: string; PortNumber: number; Protocol: Protocol; CloseOnExit: CloseOnExit } | null>(null);
+  const [initial, setInitial] = useState<SessionValues | null>(null);
+  const [protocol, setProtocol] = useState<Protocol>("ssh");
+  const [errors, setErrors] = useState<SessionFormErrors & { forwards?: string }>({});
   useEffect(() => {
     (async () => {
-      const vals = await readSessionValues(sessionName);
+      const vals = await getSessionStore().read(sessionName);
       setInitial(vals);
+      setProtocol(vals.Protocol);
     })();
   }, [sessionName]);
 
-  function protocolToFlag(p: Protocol): string {
-    switch (p) {
-      case "ssh":
-        return "-ssh";
-      case "telnet":
-        return "-telnet";
-      case "rlogin":
-        return "-rlogin";
-      case "serial":
-        return "-serial";
-      case "raw":
-      default:
-        return "-raw";
-    }
-  }
+  const clearError = (field: keyof typeof errors) => setErrors((prev) => ({ ...prev, [field]: undefined }));
 
-  async function handleSubmit(values: { host: string; port: string; protocol: Protocol; closeOnExit: CloseOnExit }) {
-    const portNum = Number(values.port);
-    if (!values.host) {
-      await showToast({ style: Toast.Style.Failure, title: "Host is required" });
-      return;
-    }
-    if (!Number.isInteger(portNum) || portNum <= 0 || portNum > 65535) {
-      await showToast({ style: Toast.Style.Failure, title: "Invalid port" });
-      return;
+  async function handleSubmit(values: TempLaunchValues) {
+    if (!initial) return;
+    const fieldErrors: typeof errors = sessionFormErrors(values);
+    let forwards;
+    try {
+      forwards = parseForwards(values.forwards ?? "");
+    } catch (e) {
+      fieldErrors.forwards = (e as Error).message;
     }
+    setErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) return;
+    const session = applySessionForm(initial, values);
 
-    const exists = await fileExists(puttyPath);
-    if (!exists) {
-      await showToast({ style: Toast.Style.Failure, title: "PuTTY path not found", message: puttyPath });
-      return;
-    }
+    // PuTTY has no flag for CloseOnExit, so a changed value goes through a scratch copy
+    const scratch = values.closeOnExit !== initial.CloseOnExit;
+    const load = scratch ? SCRATCH_SESSION : sessionName;
 
-    const args = [protocolToFlag(values.protocol), "-P", String(portNum), values.host];
-    execFile(puttyPath, args, (error) => {
-      if (error) {
-        showToast({ style: Toast.Style.Failure, title: "Failed to launch PuTTY", message: error.message });
-      }
+    const serial = values.protocol === "serial";
+    const keyFile = values.keyFile?.[0];
+    const { args, warnings } = buildPuttyArgs({
+      load,
+      protocol: values.protocol,
+      host: serial ? undefined : session.HostName,
+      port: serial ? undefined : session.PortNumber,
+      // Only what differs from the saved session, so unrelated settings raise no warnings
+      user: session.UserName !== initial.UserName ? session.UserName || undefined : undefined,
+      keyFile: keyFile !== initial.PublicKeyFile ? keyFile : undefined,
+      password: values.password || undefined,
+      forwards,
+      x11: values.x11 || undefined,
+      agentForwarding: values.agentForwarding || undefined,
+      compression: values.compression || undefined,
+      ipVersion: values.ipVersion ? (Number(values.ipVersion) as 4 | 6) : undefined,
+      serial: serial ? session : undefined,
     });
-
-    try {
-      await popToRoot({ clearSearchBar: true });
-    } catch {}
-    try {
-      await closeMainWindow({ clearRootSearch: true } as any);
-    } catch {}
+    if (warnings.length > 0) {
+      const confirmed = await confirmAlert({
+        title: "Open anyway?",
+        message: warnings.join("\n"),
+        primaryAction: { title: "Open" },
+      });
+      if (!confirmed) return;
+    }
+    const store = getSessionStore();
+    if (scratch) {
+      await removeScratchSession(store, 0);
+      await store.write(SCRATCH_SESSION, { ...initial, CloseOnExit: values.closeOnExit });
+    }
+    const launched = await launchPutty(puttyPath, args);
+    // Kept until PuTTY has read it, then removed in the background so it does not show up in
+    // PuTTY's own list; never rejects, and the list sweeps up a copy left behind
+    if (scratch) void removeScratchSession(store, launched ? undefined : 0);
+    if (!launched) return;
+    await recordLaunch(sessionName);
+    await dismissAfterLaunch();
   }
 
   return (
     <Form
+      isLoading={!initial}
       actions={
         <ActionPanel>
-          <Action.SubmitForm title="Open Without Saving" icon={Icon.Goal} onSubmit={handleSubmit as any} />
+          <Action.SubmitForm title="Open Without Saving" icon={Icon.Goal} onSubmit={handleSubmit} />
         </ActionPanel>
       }
     >
-      <Form.TextField id="host" title="Host name (or IP)" defaultValue={initial?.HostName} />
-      <Form.TextField id="port" title="Port" defaultValue={initial ? String(initial.PortNumber) : ""} />
-      <Form.Dropdown id="protocol" title="Connection type" defaultValue={initial?.Protocol || "raw"}>
-        <Form.Dropdown.Item title="Raw" value="raw" />
-        <Form.Dropdown.Item title="Telnet" value="telnet" />
-        <Form.Dropdown.Item title="Rlogin" value="rlogin" />
-        <Form.Dropdown.Item title="SSH" value="ssh" />
-        <Form.Dropdown.Item title="Serial" value="serial" />
-      </Form.Dropdown>
-      <Form.Dropdown id="closeOnExit" title="Close window on exit" defaultValue={initial?.CloseOnExit || "onexit"}>
-        <Form.Dropdown.Item title="Always" value="always" />
-        <Form.Dropdown.Item title="Never" value="never" />
-        <Form.Dropdown.Item title="Only on clean exit" value="onexit" />
-      </Form.Dropdown>
+      {initial && (
+        <>
+          <ConnectionFields
+            initial={initial}
+            protocol={protocol}
+            onProtocolChange={setProtocol}
+            userPlaceholder="Saved username"
+            errors={errors}
+            onClearError={clearError}
+          />
+          <Form.Dropdown id="closeOnExit" title="Close window on exit" defaultValue={initial.CloseOnExit}>
+            <Form.Dropdown.Item title="Always" value="always" />
+            <Form.Dropdown.Item title="Never" value="never" />
+            <Form.Dropdown.Item title="Only on clean exit" value="onexit" />
+          </Form.Dropdown>
+          {protocol !== "serial" && (
+            <>
+              <Form.FilePicker
+                id="keyFile"
+                title="Private key (.ppk)"
+                allowMultipleSelection={false}
+                defaultValue={initial.PublicKeyFile ? [initial.PublicKeyFile] : []}
+              />
+              <Form.PasswordField
+                id="password"
+                title="Password"
+                placeholder="Prompted when empty"
+                info="Passed with -pw: other programs on this PC can read it from the command line. Prefer a key."
+              />
+              <Form.Separator />
+              <Form.TextArea
+                id="forwards"
+                title="Port forwards"
+                placeholder={"L8080:localhost:80\nR2222:localhost:22\nD1080"}
+                info="Added to the session's saved forwards, one per line"
+                error={errors.forwards}
+                onChange={() => clearError("forwards")}
+              />
+              <Form.Checkbox id="x11" label="Enable X11 forwarding" defaultValue={false} />
+              <Form.Checkbox id="agentForwarding" label="Enable agent forwarding" defaultValue={false} />
+              <Form.Checkbox id="compression" label="Enable compression" defaultValue={false} />
+              <Form.Dropdown id="ipVersion" title="IP version" defaultValue="">
+                <Form.Dropdown.Item title="As saved" value="" />
+                <Form.Dropdown.Item title="IPv4" value="4" />
+                <Form.Dropdown.Item title="IPv6" value="6" />
+              </Form.Dropdown>
+            </>
+          )}
+        </>
+      )}
     </Form>
   );
 }
 
 export default function Command() {
-  const { puttyPath } = getPreferenceValues<Preferences>();
+  const preferences = getPreferenceValues<Preferences>();
+  const { checkReachability, faviconDomains } = preferences;
+  // Falls back to a discovered putty.exe when the preference is empty or wrong
+  const [puttyPath, setPuttyPath] = useState<string>(preferences.puttyPath);
   const [sessions, setSessions] = useState<PuttySession[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [tags, setTags] = useState<TagMap>({});
+  const [history, setHistory] = useState<LaunchHistory>({});
+  const [favorites, setFavorites] = useState<string[]>([]);
+  const [filter, setFilter] = useState<string>("all");
+  const [searchText, setSearchText] = useState<string>("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [reloadKey, setReloadKey] = useState<number>(0);
+  const [reachability, setReachability] = useState<Record<string, ProbeResult>>({});
+  const [checking, setChecking] = useState<string[]>([]);
+  const [tools, setTools] = useState<Partial<Record<Tool, string>>>({});
+  const [iconSettings, setIconSettings] = useState<IconSettings>({ hostRules: [], tagColors: {} });
+  // Host -> favicon file, only for hosts on the allow-list
+  const [favicons, setFavicons] = useState<Record<string, string>>({});
+  const [showDetail, setShowDetail] = useState<boolean>(true);
+  const [selectedName, setSelectedName] = useState<string | undefined>();
+  // Full values of the sessions shown in the detail pane, read when first selected
+  const [details, setDetails] = useState<Record<string, { values: SessionValues; jumpHost?: JumpHost }>>({});
+  const { push } = useNavigation();
+
+  const reloadMeta = async () => {
+    setTags(await loadTags());
+    setHistory(await loadHistory());
+    setFavorites(await loadFavorites());
+    setIconSettings(await loadIconSettings());
+  };
+
+  const reloadAll = () => {
+    setReloadKey((k) => k + 1);
+    reloadMeta();
+  };
+
+  useEffect(() => {
+    reloadMeta();
+    // A temporary launch may have been cut short before it removed its scratch session
+    void removeScratchSession(getSessionStore(), 0);
+    (async () => {
+      const found = await findTools(preferences);
+      setTools(found);
+      if (found.putty) {
+        setPuttyPath(found.putty);
+        return;
+      }
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "PuTTY not found",
+        message: preferences.puttyPath || undefined,
+        primaryAction: {
+          title: "Run Diagnostics",
+          onAction: () => launchCommand({ name: "diagnostics", type: LaunchType.UserInitiated }),
+        },
+      });
+    })();
+  }, []);
 
   useEffect(() => {
     let mounted = true;
     (async () => {
       setIsLoading(true);
-      const exists = await fileExists(puttyPath);
-      if (!exists) {
-        await showToast({
-          style: Toast.Style.Failure,
-          title: "PuTTY path not found",
-          message: puttyPath,
-        });
-      }
-      const list = await listPuttySessions();
+      setDetails({});
+      const store = getSessionStore();
+      const list: PuttySession[] = await store.list();
       if (mounted) {
         setSessions(list);
         setIsLoading(false);
       }
-      // After listing sessions, try to read HostName for nicer icons (best effort)
+      // After listing sessions, read the host and protocol for icons, search and reachability (best effort)
       (async () => {
         const updated = await Promise.all(
           list.map(async (s) => {
             try {
-              const key = `HKCU\\Software\\SimonTatham\\PuTTY\\Sessions\\${encodeSessionKey(s.name)}`;
-              return await new Promise<PuttySession>((resolve) => {
-                exec(`reg query "${key}" /v HostName`, (err, stdout) => {
-                  if (err) return resolve(s);
-                  const m = stdout.match(/HostName\s+REG_SZ\s+(.+)/);
-                  const host = m ? m[1].trim() : undefined;
-                  let iconUrl: string | undefined;
-                  if (host && /[a-zA-Z]/.test(host) && host.includes(".") && !/^\d+\.\d+\.\d+\.\d+$/.test(host)) {
-                    // Use DuckDuckGo icon service for domains
-                    iconUrl = `https://icons.duckduckgo.com/ip3/${host}.ico`;
-                  }
-                  resolve({ ...s, host, iconUrl });
-                });
-              });
+              const values = await store.read(s.name);
+              return {
+                ...s,
+                host: values.HostName || undefined,
+                user: values.UserName || undefined,
+                port: values.PortNumber,
+                protocol: values.Protocol,
+              };
             } catch {
               return s;
             }
-          })
+          }),
         );
         if (mounted) setSessions(updated);
+        const domains = parseDomainList(faviconDomains);
+        if (domains.length > 0) {
+          loadFavicons(
+            updated.map((s) => s.host).filter((h): h is string => !!h),
+            domains,
+            (host, path) => {
+              if (mounted) setFavicons((prev) => ({ ...prev, [host]: path }));
+            },
+          );
+        }
+        if (checkReachability && mounted) {
+          await probeAll(
+            updated.map(probeTarget).filter((t): t is ProbeTarget => !!t),
+            (key, result) => {
+              if (mounted) setReachability((prev) => ({ ...prev, [key]: result }));
+            },
+          );
+        }
       })();
     })();
     return () => {
       mounted = false;
     };
-  }, [puttyPath]);
+  }, [reloadKey]);
 
-  const launchSession = async (sessionName: string) => {
-    const exists = await fileExists(puttyPath);
-    if (!exists) {
-      await showToast({ style: Toast.Style.Failure, title: "PuTTY path not found", message: puttyPath });
+  useEffect(() => {
+    if (!showDetail || !selectedName || details[selectedName]) return;
+    (async () => {
+      try {
+        const store = getSessionStore();
+        const values = await store.read(selectedName);
+        const jumpHost = await resolveJumpHost(store, values);
+        setDetails((prev) => ({ ...prev, [selectedName]: { values, jumpHost } }));
+      } catch {
+        // The list entry stays without details
+      }
+    })();
+  }, [showDetail, selectedName, details]);
+
+  const forgetDetail = (sessionName: string) => {
+    setDetails((prev) => {
+      const next = { ...prev };
+      delete next[sessionName];
+      return next;
+    });
+  };
+
+  const copyCommand = async (sessionName: string) => {
+    const store = getSessionStore();
+    let detail = details[sessionName];
+    if (!detail) {
+      const values = await store.read(sessionName);
+      detail = { values, jumpHost: await resolveJumpHost(store, values) };
+    }
+    const equivalent = equivalentCommand(detail.values, detail.jumpHost);
+    if (!equivalent) {
+      await showToast({ style: Toast.Style.Failure, title: "No equivalent command", message: "Serial or no host" });
       return;
     }
-    execFile(puttyPath, ["-load", sessionName], (error) => {
-      if (error) {
-        showToast({ style: Toast.Style.Failure, title: "Failed to launch PuTTY", message: error.message });
-      }
+    await Clipboard.copy(equivalent.command);
+    await showToast({
+      style: Toast.Style.Success,
+      title: equivalent.exact ? "Copied" : "Copied without the proxy",
+      message: equivalent.command,
     });
   };
 
+  const recheck = async (targets: ProbeTarget[]) => {
+    const keys = targets.map(targetKey);
+    setChecking((prev) => [...prev, ...keys]);
+    await probeAll(
+      targets,
+      (key, result) => {
+        setReachability((prev) => ({ ...prev, [key]: result }));
+        setChecking((prev) => prev.filter((k) => k !== key));
+      },
+      { force: true },
+    );
+  };
+
+  const openInKitty = async (sessionName: string) => {
+    if (!tools.kitty) return;
+    // KiTTY keeps sessions in a store of its own, so pass the saved values instead of -load
+    const v = await getSessionStore().read(sessionName);
+    const serial = v.Protocol === "serial";
+    const { args } = buildPuttyArgs({
+      protocol: v.Protocol,
+      host: v.HostName,
+      port: v.PortNumber,
+      user: v.UserName || undefined,
+      keyFile: v.PublicKeyFile || undefined,
+      serial: serial ? v : undefined,
+    });
+    if (await launchPutty(tools.kitty, args)) setHistory(await recordLaunch(sessionName));
+  };
+
+  const openSftp = async (sessionName: string) => {
+    if (!tools.psftp) return;
+    try {
+      await launchInConsole(tools.psftp, ["-load", sessionName]);
+      setHistory(await recordLaunch(sessionName));
+    } catch (e) {
+      await showToast({ style: Toast.Style.Failure, title: "Failed to start psftp", message: (e as Error).message });
+    }
+  };
+
+  const launchSession = async (sessionName: string) => {
+    if (await launchPutty(puttyPath, ["-load", sessionName])) {
+      setHistory(await recordLaunch(sessionName));
+    }
+  };
+
+  const togglePin = async (sessionName: string) => {
+    const pinned = !favorites.includes(sessionName);
+    setFavorites(await setFavorite(sessionName, pinned));
+    await showToast({ style: Toast.Style.Success, title: pinned ? "Pinned" : "Unpinned", message: sessionName });
+  };
+
+  const clearHistory = async (sessionName: string) => {
+    setHistory(await clearLaunchHistory(sessionName));
+    await showToast({ style: Toast.Style.Success, title: "History cleared", message: sessionName });
+  };
+
   const deleteSession = async (sessionName: string) => {
-    return new Promise<void>((resolve) => {
-      const registryKey = `HKCU\\Software\\SimonTatham\\PuTTY\\Sessions\\${encodeSessionKey(sessionName)}`;
-      exec(`reg delete "${registryKey}" /f`, async (error) => {
-        if (error) {
-          await showToast({ style: Toast.Style.Failure, title: "Failed to delete session", message: sessionName });
-        } else {
-          await showToast({ style: Toast.Style.Success, title: "Deleted", message: sessionName });
-          setSessions((prev) => prev.filter((s) => s.name !== sessionName));
-        }
-        resolve();
-      });
+    try {
+      const snapshot = await deleteToTrash(getSessionStore(), sessionName);
+      setSessions((prev) => prev.filter((s) => s.name !== sessionName));
+      setSelected((prev) => prev.filter((n) => n !== sessionName));
+      await reloadMeta();
+      await showUndoToast({ title: "Deleted", message: sessionName, snapshots: [snapshot], onUndone: reloadAll });
+    } catch {
+      await showToast({ style: Toast.Style.Failure, title: "Failed to delete session", message: sessionName });
+    }
+  };
+
+  const toggleSelected = (sessionName: string) => {
+    setSelected((prev) =>
+      prev.includes(sessionName) ? prev.filter((n) => n !== sessionName) : [...prev, sessionName],
+    );
+  };
+
+  const reloadAfterBatch = () => {
+    setSelected([]);
+    reloadAll();
+  };
+
+  const deleteSelected = async () => {
+    const confirmed = await confirmAlert({
+      title: `Delete ${selected.length} sessions?`,
+      message: selected.join(", "),
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    const store = getSessionStore();
+    const snapshots: TrashEntry[] = [];
+    const results = await runBatch(selected, async (name) => {
+      snapshots.push(await deleteToTrash(store, name));
     });
+    reloadAfterBatch();
+    push(<BatchResults title="Delete Sessions" results={results} />);
+    await showUndoToast({ title: `Deleted ${snapshots.length} sessions`, snapshots, onUndone: reloadAll });
   };
 
-  return (
-    <List isLoading={isLoading} searchBarPlaceholder="Search PuTTY sessions…">
-      {sessions.map((s) => (
-        <List.Item
-          key={s.id}
-          icon={s.iconUrl ? { source: s.iconUrl, fallback: Icon.Terminal } : Icon.Terminal}
-          title={s.name}
-          accessories={[{ text: s.name }]}
-          actions={
-            <ActionPanel>
+  const openSelected = async () => {
+    if (!(await fileExists(puttyPath))) {
+      await showToast({ style: Toast.Style.Failure, title: "PuTTY path not found", message: puttyPath });
+      return;
+    }
+    const results = await runBatch(selected, async (name) => {
+      if (!(await launchPutty(puttyPath, ["-load", name]))) throw new Error("PuTTY could not be started");
+      await recordLaunch(name);
+    });
+    setHistory(await loadHistory());
+    if (results.some((r) => r.error)) push(<BatchResults title="Open Sessions" results={results} />);
+  };
+
+  const exportSessions = async (names: string[], format: ExportFormat) => {
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Exporting sessions…" });
+    try {
+      const path = await saveExport(await readSessionsForExport(getSessionStore(), names), format);
+      toast.style = Toast.Style.Success;
+      toast.title = names.length === 1 ? "Session exported" : `Exported ${names.length} sessions`;
+      toast.message = path;
+      toast.primaryAction = { title: "Show in Explorer", onAction: () => showInFinder(path) };
+    } catch (e) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to export sessions";
+      toast.message = (e as Error).message;
+    }
+  };
+
+  const renameInList = (from: string, to: string) => {
+    setSessions((prev) =>
+      prev
+        .map((s) => (s.name === from ? { ...s, id: encodeSessionKey(to), name: to } : s))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    );
+    reloadMeta();
+  };
+
+  const folders = Array.from(new Set(sessions.map((s) => splitSessionName(s.name).folder).filter(Boolean))).sort();
+  const knownTags = allTags(tags);
+  const protocols = Array.from(new Set(sessions.map((s) => s.protocol).filter((p): p is Protocol => !!p))).sort();
+  const activeFilter = parseFilter(filter);
+  const visible = sessions.filter((s) => matchesFilter(s, tags[s.name] ?? [], activeFilter));
+
+  // Favorites keep their pin order, Recent is by last launch, everything else by frecency
+  const now = Date.now();
+  const pinned = favorites.map((name) => visible.find((s) => s.name === name)).filter((s): s is PuttySession => !!s);
+  const recent = visible
+    .filter((s) => !favorites.includes(s.name) && history[s.name])
+    .sort((a, b) => (lastLaunched(history[b.name]) ?? 0) - (lastLaunched(history[a.name]) ?? 0))
+    .slice(0, RECENT_LIMIT);
+  const shown = new Set([...pinned, ...recent].map((s) => s.name));
+  const rest = visible
+    .filter((s) => !shown.has(s.name))
+    .sort((a, b) => frecency(history[b.name], now) - frecency(history[a.name], now) || a.name.localeCompare(b.name));
+
+  // Our own matching replaces Raycast's title-only filter while there is a query
+  const results = searchText.trim()
+    ? visible
+        .map((s) => ({ session: s, match: matchFields(searchText, searchFields(s, tags[s.name] ?? [])) }))
+        .filter((r): r is { session: PuttySession; match: FieldMatch } => !!r.match)
+        .sort(
+          (a, b) =>
+            b.match.score - a.match.score ||
+            frecency(history[b.session.name], now) - frecency(history[a.session.name], now),
+        )
+    : undefined;
+
+  const shownNames = results ? results.map((r) => r.session.name) : visible.map((s) => s.name);
+
+  const renderItem = (s: PuttySession, match?: FieldMatch) => {
+    const { leaf } = splitSessionName(s.name);
+    const sessionTags = tags[s.name] ?? [];
+    const isPinned = favorites.includes(s.name);
+    const last = lastLaunched(history[s.name]);
+    const target = probeTarget(s);
+    const key = target && targetKey(target);
+    const isSelected = selected.includes(s.name);
+    const defaultIcon = sessionIcon(iconSettings, s, sessionTags, s.host ? favicons[s.host] : undefined);
+    return (
+      <List.Item
+        key={s.id}
+        id={s.name}
+        icon={isSelected ? { source: Icon.CheckCircle, tintColor: Color.Blue } : defaultIcon}
+        title={leaf}
+        subtitle={
+          match && match.label !== "name" ? `${match.label}: ${highlight(match.value, match.ranges)}` : undefined
+        }
+        accessories={
+          showDetail
+            ? key
+              ? reachabilityAccessory(reachability[key], checking.includes(key))
+              : []
+            : [
+                ...sessionTags.map((t) => ({ tag: { value: t, color: tagColor(iconSettings, t) } })),
+                ...(last ? [{ date: new Date(last), tooltip: "Last opened" }] : []),
+                ...(key ? reachabilityAccessory(reachability[key], checking.includes(key)) : []),
+                { text: s.name },
+              ]
+        }
+        detail={
+          showDetail && (
+            <SessionDetail
+              name={s.name}
+              values={details[s.name]?.values}
+              jumpHost={details[s.name]?.jumpHost}
+              tags={sessionTags}
+              iconSettings={iconSettings}
+              lastOpened={last}
+              reachability={key ? reachability[key] : undefined}
+            />
+          )
+        }
+        actions={
+          <ActionPanel>
+            <Action title="Open in PuTTY" icon={Icon.Play} onAction={() => launchSession(s.name)} />
+            <Action.Push
+              title="Temporary Edit and Open"
+              icon={Icon.Goal}
+              target={<TempEditForm sessionName={s.name} puttyPath={puttyPath} />}
+              shortcut={Keyboard.Shortcut.Common.OpenWith}
+            />
+            <Action.Push
+              title="Edit Connection"
+              icon={Icon.Pencil}
+              target={
+                <EditConnectionForm
+                  sessionName={s.name}
+                  puttyPath={puttyPath}
+                  plinkPath={tools.plink}
+                  onUpdated={() => forgetDetail(s.name)}
+                />
+              }
+              shortcut={Keyboard.Shortcut.Common.Edit}
+            />
+            <Action
+              title="Delete Connection"
+              icon={Icon.Trash}
+              style={Action.Style.Destructive}
+              onAction={() => deleteSession(s.name)}
+              shortcut={Keyboard.Shortcut.Common.Remove}
+            />
+            <Action.CopyToClipboard title="Copy Session Name" content={s.name} />
+            {s.protocol !== "serial" && (
               <Action
-                title="Open in PuTTY"
-                icon={Icon.Play}
-                onAction={() => launchSession(s.name)}
+                title="Copy Equivalent Command"
+                icon={Icon.Terminal}
+                onAction={() => copyCommand(s.name)}
+                shortcut={{ modifiers: ["ctrl", "shift"], key: "c" }}
               />
-              <Action.Push
-                title="Temporary Edit and Open"
-                icon={Icon.Goal}
-                target={<TempEditForm sessionName={s.name} puttyPath={puttyPath} />}
-                shortcut={Keyboard.Shortcut.Common.OpenWith}
+            )}
+            <Action
+              title={showDetail ? "Hide Details" : "Show Details"}
+              icon={Icon.Sidebar}
+              onAction={() => setShowDetail((v) => !v)}
+              shortcut={{ modifiers: ["ctrl", "shift"], key: "i" }}
+            />
+            {s.protocol !== "serial" && (tools.psftp || tools.plink || tools.pscp) && (
+              <ActionPanel.Section title="Tools">
+                {tools.psftp && (
+                  <Action
+                    title="Open File Browser"
+                    icon={Icon.HardDrive}
+                    onAction={() => openSftp(s.name)}
+                    shortcut={{ modifiers: ["ctrl", "shift"], key: "s" }}
+                  />
+                )}
+                {tools.plink && (
+                  <Action.Push
+                    title="Run Remote Command (Plink)"
+                    icon={Icon.Terminal}
+                    target={<RemoteCommandForm sessionName={s.name} plinkPath={tools.plink} />}
+                    shortcut={{ modifiers: ["ctrl", "shift"], key: "enter" }}
+                  />
+                )}
+                {tools.pscp && (
+                  <Action.Push
+                    title="Copy File to Host"
+                    icon={Icon.Upload}
+                    target={<CopyFileForm sessionName={s.name} pscpPath={tools.pscp} />}
+                  />
+                )}
+              </ActionPanel.Section>
+            )}
+            {tools.kitty && <Action title="Open in KiTTY" icon={Icon.Window} onAction={() => openInKitty(s.name)} />}
+            <ActionPanel.Section title={selected.length > 0 ? `Selection (${selected.length})` : undefined}>
+              <Action
+                title={isSelected ? "Deselect Session" : "Select Session"}
+                icon={isSelected ? Icon.Circle : Icon.CheckCircle}
+                onAction={() => toggleSelected(s.name)}
+                shortcut={{ modifiers: ["ctrl"], key: "space" }}
               />
+              <Action
+                title="Select All Shown"
+                icon={Icon.CheckList}
+                onAction={() => setSelected(Array.from(new Set([...selected, ...shownNames])))}
+                shortcut={{ modifiers: ["ctrl", "shift"], key: "a" }}
+              />
+              {selected.length > 0 && (
+                <>
+                  <Action title="Clear Selection" icon={Icon.XMarkCircle} onAction={() => setSelected([])} />
+                  <Action title="Open Selected" icon={Icon.Play} onAction={openSelected} />
+                  {tools.plink && (
+                    <Action.Push
+                      title="Run Command on Selected"
+                      icon={Icon.Terminal}
+                      target={<RunCommandForm plinkPath={tools.plink} names={selected} />}
+                    />
+                  )}
+                  <Action.Push
+                    title="Edit Field on Selected"
+                    icon={Icon.Pencil}
+                    target={<BulkEditForm names={selected} onDone={reloadAfterBatch} />}
+                  />
+                  <Action.Push
+                    title="Tag Selected"
+                    icon={Icon.Tag}
+                    target={
+                      <BulkTagForm
+                        names={selected}
+                        knownTags={knownTags}
+                        onDone={(next) => {
+                          setTags(next);
+                          setSelected([]);
+                        }}
+                      />
+                    }
+                  />
+                  <Action
+                    title="Export Selected as Registry File"
+                    icon={Icon.Upload}
+                    onAction={() => exportSessions(selected, "reg")}
+                  />
+                  <Action
+                    title="Export Selected as JSON"
+                    icon={Icon.Upload}
+                    onAction={() => exportSessions(selected, "json")}
+                  />
+                  <Action
+                    title="Delete Selected"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    onAction={deleteSelected}
+                  />
+                </>
+              )}
+            </ActionPanel.Section>
+            <ActionPanel.Section>
+              <Action
+                title={isPinned ? "Unpin Session" : "Pin Session"}
+                icon={isPinned ? Icon.PinDisabled : Icon.Pin}
+                onAction={() => togglePin(s.name)}
+                shortcut={Keyboard.Shortcut.Common.Pin}
+              />
+              {history[s.name] && (
+                <Action title="Clear Launch History" icon={Icon.Clock} onAction={() => clearHistory(s.name)} />
+              )}
               <Action.Push
-                title="Edit Connection"
+                title="Rename Session"
                 icon={Icon.Pencil}
-                target={<EditConnectionForm sessionName={s.name} puttyPath={puttyPath} onUpdated={() => { /* no-op */ }} />}
-                shortcut={Keyboard.Shortcut.Common.Edit}
+                target={
+                  <RenameSessionForm sessionName={s.name} onRenamed={(newName) => renameInList(s.name, newName)} />
+                }
+                shortcut={{ modifiers: ["ctrl", "shift"], key: "r" }}
+              />
+              <Action.Push
+                title="Duplicate Session"
+                icon={Icon.CopyClipboard}
+                target={
+                  <DuplicateSessionForm
+                    sessionName={s.name}
+                    existingNames={sessions.map((x) => x.name)}
+                    onDuplicated={reloadAll}
+                  />
+                }
+                shortcut={Keyboard.Shortcut.Common.Duplicate}
+              />
+              <Action.Push
+                title="Save as Template"
+                icon={Icon.Document}
+                target={<SaveTemplateForm sessionName={s.name} />}
+              />
+              <Action.Push
+                title="Move to Folder"
+                icon={Icon.Folder}
+                target={
+                  <MoveSessionForm
+                    sessionName={s.name}
+                    folders={folders}
+                    onMoved={(newName) => renameInList(s.name, newName)}
+                  />
+                }
+                shortcut={{ modifiers: ["ctrl", "shift"], key: "m" }}
               />
+              <Action.Push
+                title="Edit Tags"
+                icon={Icon.Tag}
+                target={
+                  <EditTagsForm sessionName={s.name} tags={sessionTags} knownTags={knownTags} onSaved={setTags} />
+                }
+                shortcut={{ modifiers: ["ctrl", "shift"], key: "t" }}
+              />
+              {target && <Action title="Re-Check Reachability" icon={Icon.Wifi} onAction={() => recheck([target])} />}
               <Action
-                title="Delete Connection"
+                title="Re-Check All Hosts"
+                icon={Icon.Wifi}
+                onAction={() => recheck(sessions.map(probeTarget).filter((t): t is ProbeTarget => !!t))}
+                shortcut={Keyboard.Shortcut.Common.Refresh}
+              />
+              <Action.Push
+                title="Show Recently Deleted"
                 icon={Icon.Trash}
-                style={Action.Style.Destructive}
-                onAction={() => deleteSession(s.name)}
-                shortcut={Keyboard.Shortcut.Common.Remove}
+                target={<RecentlyDeleted onRestored={reloadAll} />}
+                shortcut={{ modifiers: ["ctrl", "shift"], key: "z" }}
               />
-              <Action.CopyToClipboard title="Copy Session Name" content={s.name} />
-            </ActionPanel>
-          }
-        />
-      ))}
+              <Action.Push
+                title="Manage Icons"
+                icon={Icon.Image}
+                target={<ManageIcons tags={knownTags} onChanged={setIconSettings} />}
+              />
+              <ActionPanel.Submenu title="Export" icon={Icon.Upload}>
+                <Action title="This Session as Registry File" onAction={() => exportSessions([s.name], "reg")} />
+                <Action title="This Session as JSON" onAction={() => exportSessions([s.name], "json")} />
+                <Action
+                  title="All Sessions as Registry File"
+                  onAction={() =>
+                    exportSessions(
+                      sessions.map((x) => x.name),
+                      "reg",
+                    )
+                  }
+                />
+                <Action
+                  title="All Sessions as JSON"
+                  onAction={() =>
+                    exportSessions(
+                      sessions.map((x) => x.name),
+                      "json",
+                    )
+                  }
+                />
+              </ActionPanel.Submenu>
+            </ActionPanel.Section>
+          </ActionPanel>
+        }
+      />
+    );
+  };
+
+  return (
+    <List
+      isLoading={isLoading}
+      isShowingDetail={showDetail && (results ?? visible).length > 0}
+      onSelectionChange={(id) => setSelectedName(id ?? undefined)}
+      filtering={false}
+      onSearchTextChange={setSearchText}
+      searchBarPlaceholder="Search by name, host, user@, port or protocol…"
+      searchBarAccessory={
+        <List.Dropdown tooltip="Filter sessions" value={filter} onChange={setFilter}>
+          <List.Dropdown.Item title="All Sessions" value="all" />
+          {folders.length > 0 && (
+            <List.Dropdown.Section title="Folders">
+              {folders.map((f) => (
+                <List.Dropdown.Item key={f} title={f} value={`folder:${f}`} icon={Icon.Folder} />
+              ))}
+            </List.Dropdown.Section>
+          )}
+          {knownTags.length > 0 && (
+            <List.Dropdown.Section title="Tags">
+              {knownTags.map((t) => (
+                <List.Dropdown.Item key={t} title={t} value={`tag:${t}`} icon={Icon.Tag} />
+              ))}
+            </List.Dropdown.Section>
+          )}
+          {protocols.length > 0 && (
+            <List.Dropdown.Section title="Protocols">
+              {protocols.map((p) => (
+                <List.Dropdown.Item key={p} title={PROTOCOL_TITLES[p]} value={`protocol:${p}`} icon={Icon.Network} />
+              ))}
+            </List.Dropdown.Section>
+          )}
+        </List.Dropdown>
+      }
+    >
+      {results ? (
+        <List.Section title="Results" subtitle={String(results.length)}>
+          {results.map((r) => renderItem(r.session, r.match))}
+        </List.Section>
+      ) : (
+        <>
+          <List.Section title="Favorites">{pinned.map((s) => renderItem(s))}</List.Section>
+          <List.Section title="Recent">{recent.map((s) => renderItem(s))}</List.Section>
+          {groupByFolder(rest).map(([folder, items]) => (
+            <List.Section key={folder || "/"} title={folder || undefined} subtitle={String(items.length)}>
+              {items.map((s) => renderItem(s))}
+            </List.Section>
+          ))}
+        </>
+      )}
     </List>
   );
 }